@@ -0,0 +1,169 @@
+import type { CallToolResult } from '@modelcontextprotocol/sdk/types.js';
+import { convertHtml, convertMarkdown, htmlToText } from './markdown.js';
+import type { RawAnswer } from './perplexity.js';
+import type { Citation, OutputFormat, Source, StructuredAnswer } from './types.js';
+
+// ─── STRUCTURED ANSWERS ────────────────────────────────────────────────
+
+/**
+ * Output schema shared by the tools that return a StructuredAnswer
+ */
+export const STRUCTURED_ANSWER_SCHEMA = {
+  type: 'object' as const,
+  required: ['answer', 'sources', 'citations'],
+  properties: {
+    answer: { type: 'string', description: 'Answer body with inline [n] citation markers, in Markdown unless another format was requested' },
+    sources: {
+      type: 'array',
+      items: {
+        type: 'object',
+        required: ['index', 'title', 'url', 'domain'],
+        properties: {
+          index: { type: 'integer' },
+          title: { type: 'string' },
+          url: { type: 'string' },
+          domain: { type: 'string' },
+          snippet: { type: 'string' },
+        },
+      },
+    },
+    citations: {
+      type: 'array',
+      items: {
+        type: 'object',
+        required: ['marker', 'sourceIndex'],
+        properties: {
+          marker: { type: 'string' },
+          sourceIndex: { type: 'integer' },
+        },
+      },
+    },
+    metadata: { type: 'object', description: 'Details about how the answer was produced' },
+  },
+};
+
+/**
+ * Extract the host name of a URL without a leading "www."
+ */
+function domainOf(url: string): string {
+  try {
+    return new URL(url).hostname.replace(/^www\./, '');
+  } catch {
+    return '';
+  }
+}
+
+/**
+ * Normalize a scraped answer into the structured form returned to clients
+ * @param raw Answer text and sources as read from the page
+ */
+export function buildStructuredAnswer(raw: RawAnswer): StructuredAnswer {
+  const sources: Source[] = raw.sources.map((source, i) => ({
+    index: i + 1,
+    title: source.title.trim() || source.url,
+    url: source.url,
+    domain: domainOf(source.url),
+    ...(source.snippet ? { snippet: source.snippet.trim() } : {}),
+  }));
+
+  return { answer: raw.text, sources, citations: citationsOf(raw.text, sources.length), html: raw.html };
+}
+
+/**
+ * Render the body of an answer in the requested format, from the scraped
+ * HTML when the answer has it. Answers without it (written by the server,
+ * or cached before it was kept) are converted from their Markdown.
+ * @param answer Answer whose body is Markdown
+ * @param format Requested format, reported as `metadata.format`
+ */
+export function formatAnswer<T extends StructuredAnswer>(answer: T, format: OutputFormat = 'markdown'): T {
+  if (format === 'markdown') return answer;
+  const body = answer.html === undefined ? convertMarkdown(answer.answer, format) : convertHtml(answer.html, format);
+  return { ...answer, answer: body, metadata: { ...answer.metadata, format } };
+}
+
+/**
+ * List the `[n]` markers of a text that refer to one of its sources, in
+ * order of first appearance
+ * @param text Answer body
+ * @param sourceCount Number of sources the markers may refer to
+ */
+export function citationsOf(text: string, sourceCount: number): Citation[] {
+  const citations: Citation[] = [];
+  const seen = new Set<number>();
+  for (const match of text.matchAll(/\[(\d+)\]/g)) {
+    const sourceIndex = Number(match[1]);
+    if (seen.has(sourceIndex) || sourceIndex < 1 || sourceIndex > sourceCount) continue;
+    seen.add(sourceIndex);
+    citations.push({ marker: `[${sourceIndex}]`, sourceIndex });
+  }
+  return citations;
+}
+
+/**
+ * Find the JSON array in an answer to a prompt that asked for one. The
+ * answer is read from the rendered page, so the array may be surrounded by
+ * prose, and citation markers may have been inserted between its elements.
+ * The array is read from the plain text of the answer's HTML when it has
+ * it: the Markdown body escapes characters such as `<` and `*`, which are
+ * not valid JSON escapes.
+ * @returns The parsed array, or null when the answer contains none
+ */
+export function extractJsonArray(answer: StructuredAnswer): unknown[] | null {
+  return findJsonArray(answer.html === undefined ? answer.answer : htmlToText(answer.html));
+}
+
+/**
+ * Find the first JSON array in a text
+ */
+function findJsonArray(text: string): unknown[] | null {
+  const start = text.search(/\[\s*[{"]/);
+  if (start === -1) return /\[\s*\]/.test(text) ? [] : null;
+
+  // Trailing prose may contain brackets too, so try each closing one from the end
+  for (let end = text.lastIndexOf(']'); end > start; end = text.lastIndexOf(']', end - 1)) {
+    const candidate = text.slice(start, end + 1);
+    for (const attempt of [candidate, candidate.replace(/\s*\[\d+\](?=\s*[,\]}])/g, '')]) {
+      try {
+        const parsed = JSON.parse(attempt);
+        if (Array.isArray(parsed)) return parsed;
+      } catch {
+        // Try the next variant
+      }
+    }
+  }
+  return null;
+}
+
+/**
+ * Render the sources of an answer as a numbered Markdown list
+ */
+export function formatSources(sources: Source[]): string {
+  const lines = sources.map((source) => {
+    const snippet = source.snippet ? ` — ${source.snippet}` : '';
+    return `[${source.index}] [${source.title}](${source.url}) (${source.domain})${snippet}`;
+  });
+  return `## Sources\n\n${lines.join('\n')}`;
+}
+
+/**
+ * Wrap a structured answer as an MCP tool result: the answer body, the
+ * sources list and any metadata as text content blocks, plus the full
+ * structured payload
+ */
+export function toCallToolResult(structured: StructuredAnswer): CallToolResult {
+  // The HTML only exists to render other formats
+  const { html, ...answer } = structured;
+  const content: CallToolResult['content'] = [{ type: 'text', text: answer.answer }];
+  if (answer.sources.length > 0) {
+    content.push({ type: 'text', text: formatSources(answer.sources) });
+  }
+  if (answer.metadata && Object.keys(answer.metadata).length > 0) {
+    const lines = Object.entries(answer.metadata).map(([key, value]) => `${key}: ${value}`);
+    content.push({ type: 'text', text: lines.join('\n') });
+  }
+  return {
+    content,
+    structuredContent: { ...answer },
+  };
+}
@@ -0,0 +1,244 @@
+import { STRUCTURED_ANSWER_SCHEMA, extractJsonArray } from './answer.js';
+import type { ApiCandidate, ApiComparisonAnswer, StructuredAnswer } from './types.js';
+
+// ─── API COMPARISON ────────────────────────────────────────────────────
+// `find_apis` asks Perplexity for its candidates as a JSON array, reads them
+// into records, applies the caller's filters and renders the survivors as a
+// ranked Markdown comparison table.
+
+/**
+ * Output schema of `find_apis`
+ */
+export const API_COMPARISON_SCHEMA = {
+  ...STRUCTURED_ANSWER_SCHEMA,
+  properties: {
+    ...STRUCTURED_ANSWER_SCHEMA.properties,
+    candidates: {
+      type: 'array',
+      items: {
+        type: 'object',
+        required: ['rank', 'name', 'provider'],
+        properties: {
+          rank: { type: 'integer' },
+          name: { type: 'string' },
+          provider: { type: 'string' },
+          docs_url: { type: ['string', 'null'] },
+          auth_method: { type: 'string' },
+          pricing_model: { type: 'string' },
+          free_tier: { type: ['boolean', 'null'] },
+          free_tier_details: { type: 'string' },
+          rate_limits: { type: 'string' },
+          sdk_languages: { type: 'array', items: { type: 'string' } },
+          self_hostable: { type: ['boolean', 'null'] },
+          maturity: { type: 'string' },
+          fit: { type: ['integer', 'null'], description: 'How well the API meets the requirements, 1 to 10' },
+          sources: { type: 'array', items: { type: 'string' } },
+        },
+      },
+    },
+    excluded: {
+      type: 'array',
+      items: {
+        type: 'object',
+        required: ['name', 'reason'],
+        properties: { name: { type: 'string' }, reason: { type: 'string' } },
+      },
+    },
+    comparison_table: { type: 'string', description: 'Markdown table of the candidates, best fit first' },
+  },
+};
+
+/**
+ * Requirements applied to the candidates
+ */
+export interface ApiFilters {
+  free?: boolean;
+  language?: string;
+  self_hostable?: boolean;
+}
+
+/**
+ * Alternative spellings of SDK languages
+ */
+const LANGUAGE_ALIASES: Record<string, string> = {
+  js: 'javascript',
+  node: 'javascript',
+  nodejs: 'javascript',
+  'node.js': 'javascript',
+  ts: 'typescript',
+  py: 'python',
+  golang: 'go',
+  csharp: 'c#',
+  '.net': 'c#',
+  dotnet: 'c#',
+  rb: 'ruby',
+  'c++': 'cpp',
+};
+
+function normalizeLanguage(language: string): string {
+  const name = language.trim().toLowerCase();
+  return LANGUAGE_ALIASES[name] ?? name;
+}
+
+/**
+ * Whether a candidate offers an SDK for a language. JavaScript and
+ * TypeScript SDKs count for each other.
+ */
+function supportsLanguage(candidate: ApiCandidate, language: string): boolean {
+  const family = (name: string) => (name === 'typescript' ? 'javascript' : name);
+  const wanted = family(normalizeLanguage(language));
+  return candidate.sdk_languages.some((offered) => family(normalizeLanguage(offered)) === wanted);
+}
+
+/**
+ * Why a candidate fails the filters, or null when it passes
+ */
+function exclusionReason(candidate: ApiCandidate, filters: ApiFilters): string | null {
+  if (filters.free && candidate.free_tier !== true) {
+    return candidate.free_tier === false ? 'no free tier' : 'free tier unknown';
+  }
+  if (filters.language && !supportsLanguage(candidate, filters.language)) {
+    return `no ${filters.language} SDK listed`;
+  }
+  if (filters.self_hostable && candidate.self_hostable !== true) {
+    return candidate.self_hostable === false ? 'not self-hostable' : 'self-hosting unknown';
+  }
+  return null;
+}
+
+/**
+ * Read one element of the JSON array into a candidate
+ * @param entry Parsed element
+ * @param answer Answer the element came from, to resolve `[n]` source markers
+ */
+function toCandidate(entry: unknown, answer: StructuredAnswer): ApiCandidate | null {
+  const fields = entry as Record<string, unknown>;
+  if (typeof fields?.name !== 'string' || !fields.name.trim()) return null;
+
+  const text = (value: unknown) => (typeof value === 'string' ? value.replace(/\[\d+\]/g, '').trim() : '');
+  const flag = (value: unknown) => (typeof value === 'boolean' ? value : null);
+  const url = (value: unknown) => (typeof value === 'string' && /^https?:\/\//.test(value.trim()) ? value.trim() : null);
+
+  const sources = new Set<string>();
+  const rawSources = Array.isArray(fields.sources) ? fields.sources : [fields.sources];
+  for (const source of rawSources) {
+    if (typeof source !== 'string') continue;
+    const direct = url(source);
+    if (direct) sources.add(direct);
+    for (const marker of source.matchAll(/\[(\d+)\]/g)) {
+      const cited = answer.sources[Number(marker[1]) - 1];
+      if (cited) sources.add(cited.url);
+    }
+  }
+  const fit = Number(fields.fit);
+
+  return {
+    rank: 0,
+    name: text(fields.name),
+    provider: text(fields.provider),
+    docs_url: url(fields.docs_url),
+    auth_method: text(fields.auth_method),
+    pricing_model: text(fields.pricing_model),
+    free_tier: flag(fields.free_tier),
+    free_tier_details: text(fields.free_tier_details),
+    rate_limits: text(fields.rate_limits),
+    sdk_languages: Array.isArray(fields.sdk_languages)
+      ? fields.sdk_languages.filter((language): language is string => typeof language === 'string').map((language) => language.trim())
+      : [],
+    self_hostable: flag(fields.self_hostable),
+    maturity: text(fields.maturity),
+    fit: Number.isFinite(fit) && fit >= 1 && fit <= 10 ? Math.round(fit) : null,
+    sources: [...sources],
+  };
+}
+
+/**
+ * Escape a value for a Markdown table cell
+ */
+function cell(value: string): string {
+  return value.replace(/\|/g, '\\|').replace(/\s*\n\s*/g, ' ') || '—';
+}
+
+function yesNo(value: boolean | null): string {
+  return value === null ? '?' : value ? 'yes' : 'no';
+}
+
+/**
+ * Render candidates as a Markdown comparison table
+ */
+export function formatComparisonTable(candidates: ApiCandidate[]): string {
+  const header = '| # | API | Provider | Auth | Pricing | Free tier | Rate limits | SDKs | Self-hostable | Fit |';
+  const rows = candidates.map((candidate) => [
+    '',
+    String(candidate.rank),
+    candidate.docs_url ? `[${cell(candidate.name)}](${candidate.docs_url})` : cell(candidate.name),
+    cell(candidate.provider),
+    cell(candidate.auth_method),
+    cell(candidate.pricing_model),
+    candidate.free_tier_details ? `${yesNo(candidate.free_tier)}: ${cell(candidate.free_tier_details)}` : yesNo(candidate.free_tier),
+    cell(candidate.rate_limits),
+    cell(candidate.sdk_languages.join(', ')),
+    yesNo(candidate.self_hostable),
+    candidate.fit === null ? '?' : `${candidate.fit}/10`,
+    '',
+  ].join(' | ').trim());
+  return [header, '|---|---|---|---|---|---|---|---|---|---|', ...rows].join('\n');
+}
+
+/**
+ * Turn Perplexity's answer into ranked, filtered candidates
+ * @param answer Answer to the find_apis prompt
+ * @param filters Requirements the candidates must meet
+ * @returns The comparison, or null when the answer holds no readable candidates
+ */
+export function buildApiComparison(answer: StructuredAnswer, filters: ApiFilters): ApiComparisonAnswer | null {
+  const entries = extractJsonArray(answer);
+  if (!entries) return null;
+
+  const all = entries
+    .map((entry) => toCandidate(entry, answer))
+    .filter((candidate): candidate is ApiCandidate => candidate !== null)
+    .map((candidate, order) => ({ candidate, order }))
+    // Best fit first; Perplexity's own order breaks ties
+    .sort((a, b) => (b.candidate.fit ?? 0) - (a.candidate.fit ?? 0) || a.order - b.order)
+    .map(({ candidate }) => candidate);
+
+  const candidates: ApiCandidate[] = [];
+  const excluded: ApiComparisonAnswer['excluded'] = [];
+  for (const candidate of all) {
+    const reason = exclusionReason(candidate, filters);
+    if (reason) {
+      excluded.push({ name: candidate.name, reason });
+    } else {
+      candidates.push({ ...candidate, rank: candidates.length + 1 });
+    }
+  }
+
+  const table = formatComparisonTable(candidates);
+  const notes = candidates
+    .filter((candidate) => candidate.maturity || candidate.sources.length > 0)
+    .map((candidate) => [
+      `### ${candidate.rank}. ${candidate.name}`,
+      candidate.maturity,
+      candidate.sources.length > 0 ? `Sources: ${candidate.sources.join(', ')}` : '',
+    ].filter(Boolean).join('\n\n'));
+  const body = [
+    candidates.length > 0 ? `## API comparison\n\n${table}` : '## API comparison\n\nNo candidate meets the requirements.',
+    ...notes,
+    excluded.length > 0
+      ? `Excluded by the filters: ${excluded.map((entry) => `${entry.name} (${entry.reason})`).join(', ')}`
+      : '',
+  ].filter(Boolean).join('\n\n');
+
+  return {
+    ...answer,
+    answer: body,
+    // The body is no longer the scraped answer, so formats are rendered from its Markdown
+    html: undefined,
+    // The markers belonged to the raw JSON; each candidate lists its own sources
+    citations: [],
+    candidates,
+    excluded,
+    comparison_table: table,
+  };
+}
@@ -0,0 +1,350 @@
+import type Database from 'better-sqlite3';
+import type { Resource, ResourceTemplate } from '@modelcontextprotocol/sdk/types.js';
+import type { Chat, ChatMessage, ChatSearchHit, ChatSummary } from './types.js';
+
+// ─── CHAT HISTORY STORE ────────────────────────────────────────────────
+
+/**
+ * Row shape of the `chat_history` table
+ */
+interface ChatRow {
+  id: string;
+  messages: string;
+  created_at: number;
+  updated_at: number;
+}
+
+/**
+ * Identifier written into exported JSON chats
+ */
+export const CHAT_EXPORT_FORMAT = 'perplexity-mcp-chat';
+export const CHAT_EXPORT_VERSION = 1;
+
+/**
+ * Length of the title and preview derived from a chat's first messages
+ */
+const TITLE_LENGTH = 80;
+const PREVIEW_LENGTH = 200;
+
+/**
+ * Shorten text to a single line of at most `length` characters
+ */
+function truncate(text: string, length: number): string {
+  const line = text.replace(/\s+/g, ' ').trim();
+  return line.length > length ? `${line.substring(0, length - 1)}…` : line;
+}
+
+/**
+ * Quote every term of a free-text query so FTS5 operators in user input are
+ * matched literally instead of being parsed as query syntax
+ */
+function toFtsQuery(query: string): string {
+  return query
+    .split(/\s+/)
+    .filter(Boolean)
+    .map((term) => `"${term.replace(/"/g, '""')}"`)
+    .join(' ');
+}
+
+/**
+ * Read and write conversations in the `chat_history` table, keeping the
+ * `chat_messages_fts` full-text index in sync
+ */
+export class ChatHistory {
+  constructor(private db: Database.Database) {}
+
+  /**
+   * Convert a table row into a Chat
+   */
+  private fromRow(row: ChatRow): Chat {
+    return {
+      id: row.id,
+      messages: JSON.parse(row.messages) as ChatMessage[],
+      created_at: row.created_at,
+      updated_at: row.updated_at,
+    };
+  }
+
+  /**
+   * Add messages of a chat to the full-text index
+   * @param id Chat ID
+   * @param messages Messages to index
+   * @param startIndex Position of the first message within the chat
+   */
+  private indexMessages(id: string, messages: ChatMessage[], startIndex: number): void {
+    const insert = this.db.prepare(
+      'INSERT INTO chat_messages_fts (chat_id, message_index, role, content) VALUES (?, ?, ?, ?)'
+    );
+    messages.forEach((message, i) => insert.run(id, startIndex + i, message.role, message.content));
+  }
+
+  /**
+   * Load a conversation
+   * @param id Chat ID
+   * @returns The chat, or undefined when no chat has that ID
+   */
+  public get(id: string): Chat | undefined {
+    const row = this.db
+      .prepare('SELECT id, messages, created_at, updated_at FROM chat_history WHERE id = ?')
+      .get(id) as ChatRow | undefined;
+    return row ? this.fromRow(row) : undefined;
+  }
+
+  /**
+   * Append turns to a conversation, creating it if needed
+   * @param id Chat ID
+   * @param messages Turns to append, in order
+   */
+  public append(id: string, messages: ChatMessage[]): void {
+    const now = Date.now();
+    const write = this.db.transaction(() => {
+      const existing = this.get(id);
+      if (existing) {
+        this.db
+          .prepare('UPDATE chat_history SET messages = ?, updated_at = ? WHERE id = ?')
+          .run(JSON.stringify([...existing.messages, ...messages]), now, id);
+      } else {
+        this.db
+          .prepare('INSERT INTO chat_history (id, messages, created_at, updated_at) VALUES (?, ?, ?, ?)')
+          .run(id, JSON.stringify(messages), now, now);
+      }
+      this.indexMessages(id, messages, existing?.messages.length ?? 0);
+    });
+    write();
+  }
+
+  /**
+   * List conversations, most recently updated first
+   * @param limit Maximum number of chats to return
+   * @param offset Number of chats to skip
+   */
+  public list(limit: number, offset: number): { chats: ChatSummary[]; total: number } {
+    const { total } = this.db.prepare('SELECT COUNT(*) AS total FROM chat_history').get() as { total: number };
+    const rows = this.db
+      .prepare('SELECT id, messages, created_at, updated_at FROM chat_history ORDER BY updated_at DESC LIMIT ? OFFSET ?')
+      .all(limit, offset) as ChatRow[];
+
+    return { chats: rows.map((row) => summarizeChat(this.fromRow(row))), total };
+  }
+
+  /**
+   * Full-text search across all stored messages
+   * @param query Free-text query; every term must match
+   * @param limit Maximum number of hits
+   */
+  public search(query: string, limit: number): ChatSearchHit[] {
+    const ftsQuery = toFtsQuery(query);
+    if (!ftsQuery) return [];
+
+    const rows = this.db
+      .prepare(
+        `SELECT chat_id, message_index, role,
+                snippet(chat_messages_fts, 3, '**', '**', '…', 16) AS snippet
+           FROM chat_messages_fts
+          WHERE chat_messages_fts MATCH ?
+          ORDER BY rank
+          LIMIT ?`
+      )
+      .all(ftsQuery, limit) as Omit<ChatSearchHit, 'title'>[];
+
+    const titles = new Map<string, string>();
+    return rows.map((row) => {
+      if (!titles.has(row.chat_id)) {
+        const chat = this.get(row.chat_id);
+        titles.set(row.chat_id, chat ? summarizeChat(chat).title : '');
+      }
+      return { ...row, message_index: Number(row.message_index), title: titles.get(row.chat_id)! };
+    });
+  }
+
+  /**
+   * Delete a conversation
+   * @param id Chat ID
+   * @returns Whether a chat was deleted
+   */
+  public delete(id: string): boolean {
+    const remove = this.db.transaction(() => {
+      this.db.prepare('DELETE FROM chat_messages_fts WHERE chat_id = ?').run(id);
+      return this.db.prepare('DELETE FROM chat_history WHERE id = ?').run(id).changes > 0;
+    });
+    return remove();
+  }
+
+  /**
+   * Delete every conversation
+   * @returns Number of chats deleted
+   */
+  public deleteAll(): number {
+    const remove = this.db.transaction(() => {
+      this.db.prepare('DELETE FROM chat_messages_fts').run();
+      return this.db.prepare('DELETE FROM chat_history').run().changes;
+    });
+    return remove();
+  }
+
+  /**
+   * Store a complete chat, e.g. one imported from another machine
+   * @param chat Chat to store, keeping its ID and timestamps
+   * @param overwrite Replace an existing chat with the same ID
+   * @returns Whether an existing chat was replaced
+   */
+  public save(chat: Chat, overwrite: boolean): boolean {
+    const write = this.db.transaction(() => {
+      const exists = this.get(chat.id) !== undefined;
+      if (exists && !overwrite) {
+        throw new Error(`Chat ${chat.id} already exists`);
+      }
+      if (exists) this.delete(chat.id);
+      this.db
+        .prepare('INSERT INTO chat_history (id, messages, created_at, updated_at) VALUES (?, ?, ?, ?)')
+        .run(chat.id, JSON.stringify(chat.messages), chat.created_at, chat.updated_at);
+      this.indexMessages(chat.id, chat.messages, 0);
+      return exists;
+    });
+    return write();
+  }
+}
+
+/**
+ * Derive the listing summary of a chat from its messages
+ */
+export function summarizeChat(chat: Chat): ChatSummary {
+  const firstUser = chat.messages.find((m) => m.role === 'user');
+  const firstAssistant = chat.messages.find((m) => m.role === 'assistant');
+  return {
+    chat_id: chat.id,
+    title: truncate(firstUser?.content ?? '(empty chat)', TITLE_LENGTH),
+    preview: truncate(firstAssistant?.content ?? '', PREVIEW_LENGTH),
+    message_count: chat.messages.length,
+    created_at: chat.created_at,
+    updated_at: chat.updated_at,
+  };
+}
+
+/**
+ * Render a chat as a Markdown transcript
+ */
+export function formatChatMarkdown(chat: Chat): string {
+  const lines = [
+    `# ${summarizeChat(chat).title}`,
+    '',
+    `- Chat ID: ${chat.id}`,
+    `- Created: ${new Date(chat.created_at).toISOString()}`,
+    `- Updated: ${new Date(chat.updated_at).toISOString()}`,
+  ];
+
+  for (const message of chat.messages) {
+    lines.push('', `## ${message.role === 'user' ? 'User' : 'Assistant'} (${new Date(message.timestamp).toISOString()})`, '', message.content);
+    if (message.sources && message.sources.length > 0) {
+      lines.push('', '**Sources:**', '');
+      for (const source of message.sources) {
+        lines.push(`${source.index}. [${source.title}](${source.url})`);
+      }
+    }
+  }
+
+  return lines.join('\n');
+}
+
+/**
+ * Serialize a chat in the export format accepted by parseChatExport
+ */
+export function formatChatJson(chat: Chat): string {
+  return JSON.stringify({ format: CHAT_EXPORT_FORMAT, version: CHAT_EXPORT_VERSION, chat }, null, 2);
+}
+
+/**
+ * Parse and check a chat produced by formatChatJson
+ * @param data Exported JSON text
+ * @throws Error describing the first problem found
+ */
+export function parseChatExport(data: string): Chat {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(data);
+  } catch (error) {
+    throw new Error(`Export is not valid JSON: ${error instanceof Error ? error.message : String(error)}`);
+  }
+
+  const envelope = parsed as { format?: unknown; version?: unknown; chat?: Partial<Chat> };
+  if (envelope?.format !== CHAT_EXPORT_FORMAT) {
+    throw new Error(`Unsupported export format: expected "${CHAT_EXPORT_FORMAT}"`);
+  }
+  if (typeof envelope.version !== 'number' || envelope.version > CHAT_EXPORT_VERSION) {
+    throw new Error(`Unsupported export version: ${String(envelope.version)}`);
+  }
+
+  const chat = envelope.chat;
+  if (!chat || typeof chat.id !== 'string' || !chat.id) {
+    throw new Error('Export is missing chat.id');
+  }
+  if (!Array.isArray(chat.messages)) {
+    throw new Error('Export is missing chat.messages');
+  }
+  chat.messages.forEach((message, i) => {
+    if ((message?.role !== 'user' && message?.role !== 'assistant') || typeof message.content !== 'string') {
+      throw new Error(`chat.messages[${i}] must have a role of "user" or "assistant" and string content`);
+    }
+  });
+
+  const now = Date.now();
+  return {
+    id: chat.id,
+    messages: chat.messages.map((message) => ({ ...message, timestamp: Number(message.timestamp) || now })),
+    created_at: Number(chat.created_at) || now,
+    updated_at: Number(chat.updated_at) || now,
+  };
+}
+
+// ─── CHAT RESOURCES ────────────────────────────────────────────────────
+// Stored chats are also served as MCP resources named `chat://{id}`, read
+// as their Markdown transcript.
+
+/**
+ * Template advertised through `resources/templates/list`
+ */
+export const CHAT_RESOURCE_TEMPLATE: ResourceTemplate = {
+  uriTemplate: 'chat://{id}',
+  name: 'chat',
+  description: 'Transcript of a chat_perplexity conversation, in Markdown',
+  mimeType: 'text/markdown',
+};
+
+/**
+ * Number of chats per `resources/list` page
+ */
+export const CHAT_RESOURCE_PAGE_SIZE = 100;
+
+/**
+ * URI of a chat's resource
+ */
+export function chatResourceUri(id: string): string {
+  return `chat://${encodeURIComponent(id)}`;
+}
+
+/**
+ * Chat ID named by a resource URI
+ * @returns The ID, or null when the URI is not a chat URI
+ */
+export function chatIdFromUri(uri: string): string | null {
+  const match = uri.match(/^chat:\/\/([^/?#]+)\/?$/);
+  if (!match) return null;
+  try {
+    return decodeURIComponent(match[1]);
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Resource listing entry of a chat
+ */
+export function chatResource(summary: ChatSummary): Resource {
+  return {
+    uri: chatResourceUri(summary.chat_id),
+    name: summary.title,
+    description: `${summary.message_count} messages: ${summary.preview}`,
+    mimeType: 'text/markdown',
+    annotations: { lastModified: new Date(summary.updated_at).toISOString() },
+  };
+}
@@ -0,0 +1,96 @@
+import { BackendUnavailableError } from './errors.js';
+import { logInfo, logWarn } from './logging.js';
+
+// ─── CIRCUIT BREAKER ───────────────────────────────────────────────────
+// After too many consecutive backend failures the breaker opens and calls
+// fail fast until the cooldown elapses. Then a single trial call is let
+// through: success closes the breaker, failure opens it again.
+
+/**
+ * Thresholds of the circuit breaker
+ */
+export interface CircuitBreakerOptions {
+  /** Consecutive failures that open the breaker */
+  failureThreshold: number;
+  /** Time the breaker stays open before a trial call is allowed */
+  cooldown: number;
+}
+
+export type CircuitState = 'closed' | 'open' | 'half_open';
+
+export class CircuitBreaker {
+  private state: CircuitState = 'closed';
+  private consecutiveFailures = 0;
+  private openedAt = 0;
+  private trialInFlight = false;
+
+  constructor(private options: CircuitBreakerOptions) {}
+
+  /**
+   * Current state, for logging
+   */
+  public getState(): CircuitState {
+    return this.state;
+  }
+
+  /**
+   * Allow a call through or fail fast
+   * @returns Whether the call holds the half-open trial slot
+   * @throws BackendUnavailableError while the breaker is open
+   */
+  public check(): boolean {
+    if (this.state === 'closed') return false;
+
+    const remaining = this.openedAt + this.options.cooldown - Date.now();
+    if (this.state === 'open' && remaining <= 0) {
+      this.state = 'half_open';
+      logInfo('Circuit breaker half-open, allowing a trial request');
+    }
+
+    if (this.state === 'half_open' && !this.trialInFlight) {
+      this.trialInFlight = true;
+      return true;
+    }
+
+    throw new BackendUnavailableError(Math.max(1, Math.ceil(remaining / 1000)));
+  }
+
+  /**
+   * Record a successful call
+   */
+  public recordSuccess(): void {
+    if (this.state !== 'closed') {
+      logInfo('Circuit breaker closed, backend recovered');
+    }
+    this.state = 'closed';
+    this.consecutiveFailures = 0;
+    this.trialInFlight = false;
+  }
+
+  /**
+   * Record a backend failure. Only the trial call decides the outcome of
+   * the half-open state; failures of calls let through before the breaker
+   * opened are counted but neither reopen it nor extend its cooldown.
+   * @param trial What check() returned for the call
+   */
+  public recordFailure(trial: boolean): void {
+    this.consecutiveFailures++;
+    if (!trial && this.state !== 'closed') return;
+
+    if (trial || this.consecutiveFailures >= this.options.failureThreshold) {
+      logWarn(`Circuit breaker opened after ${this.consecutiveFailures} consecutive failures, cooling down for ${this.options.cooldown}ms`);
+      this.state = 'open';
+      this.openedAt = Date.now();
+      this.trialInFlight = false;
+    }
+  }
+
+  /**
+   * Record a call that ended without saying anything about backend health
+   * (e.g. cancelled), freeing the trial slot if it held it
+   * @param trial What check() returned for the call
+   */
+  public recordNeutral(trial: boolean): void {
+    if (trial) this.trialInFlight = false;
+  }
+}
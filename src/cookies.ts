@@ -0,0 +1,194 @@
+import type { Cookie, CookieData } from 'puppeteer';
+
+// ─── COOKIE FILES ──────────────────────────────────────────────────────
+// Conversion between browser cookies and the two file formats people
+// usually have at hand: JSON (puppeteer or browser-extension exports) and
+// the Netscape cookies.txt format used by curl and yt-dlp.
+
+export type CookieFileFormat = 'json' | 'netscape';
+
+/**
+ * Names of the cookies that hold a logged-in Perplexity session
+ */
+export const SESSION_COOKIE_NAMES = [
+  '__Secure-next-auth.session-token',
+  'next-auth.session-token',
+];
+
+/**
+ * Domain whose cookies are exported by default
+ */
+export const PERPLEXITY_COOKIE_DOMAIN = 'perplexity.ai';
+
+const NETSCAPE_HEADER = '# Netscape HTTP Cookie File';
+const HTTP_ONLY_PREFIX = '#HttpOnly_';
+
+/**
+ * Guess the format of a cookie file from its content
+ */
+export function detectCookieFormat(data: string): CookieFileFormat {
+  const start = data.trimStart();
+  return start.startsWith('[') || start.startsWith('{') ? 'json' : 'netscape';
+}
+
+/**
+ * Normalize a sameSite value from an extension export ("no_restriction",
+ * "lax", ...) to the values Chrome accepts
+ */
+function toSameSite(value: unknown): CookieData['sameSite'] {
+  switch (String(value).toLowerCase()) {
+    case 'strict':
+      return 'Strict';
+    case 'lax':
+      return 'Lax';
+    case 'none':
+    case 'no_restriction':
+      return 'None';
+    default:
+      return undefined;
+  }
+}
+
+/**
+ * Parse a JSON array of cookies, accepting puppeteer's `expires` as well as
+ * the `expirationDate` written by browser extensions
+ */
+function parseJsonCookies(data: string): CookieData[] {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(data);
+  } catch (error) {
+    throw new Error(`Cookie file is not valid JSON: ${error instanceof Error ? error.message : String(error)}`);
+  }
+
+  const list = Array.isArray(parsed) ? parsed : (parsed as { cookies?: unknown })?.cookies;
+  if (!Array.isArray(list)) {
+    throw new Error('Cookie JSON must be an array of cookies or an object with a "cookies" array');
+  }
+
+  return list.map((entry, i) => {
+    const cookie = entry as Record<string, unknown>;
+    if (typeof cookie?.name !== 'string' || typeof cookie.value !== 'string' || typeof cookie.domain !== 'string') {
+      throw new Error(`cookies[${i}] must have string name, value and domain`);
+    }
+    const expires = Number(cookie.expires ?? cookie.expirationDate);
+    return {
+      name: cookie.name,
+      value: cookie.value,
+      domain: cookie.domain,
+      path: typeof cookie.path === 'string' ? cookie.path : '/',
+      secure: Boolean(cookie.secure),
+      httpOnly: Boolean(cookie.httpOnly),
+      sameSite: toSameSite(cookie.sameSite),
+      // Session cookies are exported with -1 or no expiry at all
+      expires: Number.isFinite(expires) && expires > 0 ? expires : undefined,
+    };
+  });
+}
+
+/**
+ * Parse a Netscape cookies.txt file
+ */
+function parseNetscapeCookies(data: string): CookieData[] {
+  const cookies: CookieData[] = [];
+
+  data.split(/\r?\n/).forEach((rawLine, i) => {
+    // Values may be empty, so only leading whitespace is insignificant
+    let line = rawLine.trimStart();
+    let httpOnly = false;
+    if (line.startsWith(HTTP_ONLY_PREFIX)) {
+      httpOnly = true;
+      line = line.slice(HTTP_ONLY_PREFIX.length);
+    } else if (!line.trim() || line.startsWith('#')) {
+      return;
+    }
+
+    const fields = line.split('\t');
+    if (fields.length !== 7) {
+      throw new Error(`Line ${i + 1}: expected 7 tab-separated fields, got ${fields.length}`);
+    }
+    const [domain, , path, secure, expires, name, value] = fields;
+    const expiry = Number(expires);
+    cookies.push({
+      name,
+      value,
+      domain,
+      path,
+      secure: secure.toUpperCase() === 'TRUE',
+      httpOnly,
+      expires: Number.isFinite(expiry) && expiry > 0 ? expiry : undefined,
+    });
+  });
+
+  return cookies;
+}
+
+/**
+ * Parse a cookie file
+ * @param data File content
+ * @param format File format; detected from the content when omitted
+ * @throws Error describing the first problem found
+ */
+export function parseCookieFile(data: string, format: CookieFileFormat = detectCookieFormat(data)): CookieData[] {
+  const cookies = format === 'json' ? parseJsonCookies(data) : parseNetscapeCookies(data);
+  if (cookies.length === 0) {
+    throw new Error('Cookie file contains no cookies');
+  }
+  return cookies;
+}
+
+/**
+ * Serialize cookies in the given file format
+ */
+export function formatCookieFile(cookies: Cookie[], format: CookieFileFormat): string {
+  if (format === 'json') {
+    return JSON.stringify(cookies, null, 2);
+  }
+
+  const lines = cookies.map((cookie) => [
+    `${cookie.httpOnly ? HTTP_ONLY_PREFIX : ''}${cookie.domain}`,
+    cookie.domain.startsWith('.') ? 'TRUE' : 'FALSE',
+    cookie.path,
+    cookie.secure ? 'TRUE' : 'FALSE',
+    String(cookie.session || cookie.expires < 0 ? 0 : Math.round(cookie.expires)),
+    cookie.name,
+    cookie.value,
+  ].join('\t'));
+  return `${NETSCAPE_HEADER}\n${lines.join('\n')}\n`;
+}
+
+/**
+ * Whether a cookie belongs to a domain or one of its subdomains
+ */
+export function matchesDomain(cookie: { domain?: string }, domain: string): boolean {
+  const host = (cookie.domain ?? '').replace(/^\./, '').toLowerCase();
+  const target = domain.replace(/^\./, '').toLowerCase();
+  return host === target || host.endsWith(`.${target}`);
+}
+
+/**
+ * Login state derived from the Perplexity session cookie
+ */
+export interface SessionState {
+  logged_in: boolean;
+  /** Expiry of the session cookie in epoch milliseconds, null for a browser-session cookie */
+  expires_at: number | null;
+}
+
+/**
+ * Determine whether the browser holds a live Perplexity session
+ * @param cookies All cookies of the browser
+ */
+export function sessionStateOf(cookies: Cookie[]): SessionState {
+  const now = Date.now() / 1000;
+  const session = cookies.find((cookie) =>
+    SESSION_COOKIE_NAMES.includes(cookie.name) &&
+    matchesDomain(cookie, PERPLEXITY_COOKIE_DOMAIN) &&
+    (cookie.session || cookie.expires < 0 || cookie.expires > now)
+  );
+  if (!session) return { logged_in: false, expires_at: null };
+  return {
+    logged_in: true,
+    expires_at: session.session || session.expires < 0 ? null : Math.round(session.expires * 1000),
+  };
+}
@@ -0,0 +1,442 @@
+import ts from 'typescript';
+import { extractJsonArray } from './answer.js';
+import type { DeprecationFinding, StructuredAnswer } from './types.js';
+
+// ─── DEPRECATION ANALYSIS ──────────────────────────────────────────────
+// `check_deprecated_code` parses the snippet locally to list the modules it
+// imports and the APIs it uses, with their line numbers. Only that list is
+// sent to Perplexity, in chunks small enough for one prompt, and the APIs
+// reported as deprecated are mapped back to the lines that use them.
+
+/**
+ * An imported module or API used by the analyzed code
+ */
+export interface ApiUsage {
+  /** Name as written in the code, e.g. "ReactDOM.render" */
+  symbol: string;
+  /** Module the name was imported from, when known */
+  module?: string;
+  kind: 'import' | 'call' | 'construct' | 'method';
+  /** 1-based lines where the symbol is used, ascending */
+  lines: number[];
+}
+
+/**
+ * Everything extracted from a snippet
+ */
+export interface CodeAnalysis {
+  /** `typescript` for TypeScript/JavaScript, `generic` for the line-based fallback */
+  parser: 'typescript' | 'generic';
+  modules: string[];
+  apis: ApiUsage[];
+}
+
+/**
+ * Collects usages, merging repeated uses of the same symbol
+ */
+class UsageCollector {
+  private usages = new Map<string, ApiUsage>();
+  public modules = new Set<string>();
+
+  public add(kind: ApiUsage['kind'], symbol: string, line: number, module?: string): void {
+    const key = `${kind}\n${symbol}\n${module ?? ''}`;
+    const usage = this.usages.get(key);
+    if (!usage) {
+      this.usages.set(key, { symbol, ...(module ? { module } : {}), kind, lines: [line] });
+    } else if (!usage.lines.includes(line)) {
+      usage.lines.push(line);
+    }
+  }
+
+  public result(parser: CodeAnalysis['parser']): CodeAnalysis {
+    const apis = [...this.usages.values()];
+    apis.forEach((usage) => usage.lines.sort((a, b) => a - b));
+    apis.sort((a, b) => a.lines[0] - b.lines[0] || a.symbol.localeCompare(b.symbol));
+    return { parser, modules: [...this.modules], apis };
+  }
+}
+
+/**
+ * Patterns that only occur in languages the TypeScript parser cannot read
+ */
+const NON_JS_PATTERNS = [
+  /^\s*def\s+\w+\s*\(.*\)\s*(->\s*[^:]+)?:\s*$/m, // Python
+  /^\s*from\s+[\w.]+\s+import\s+[\w*]/m, // Python
+  /^\s*package\s+\w+\s*$/m, // Go
+  /^\s*func\s+(\(\w+\s+\*?\w+\)\s*)?\w+\s*\(/m, // Go
+  /^\s*(pub\s+)?fn\s+\w+/m, // Rust
+  /^\s*use\s+\w+(::\w+)+/m, // Rust
+  /^\s*import\s+(static\s+)?[\w.]+\.[\w*]+;\s*$/m, // Java
+  /^\s*<\?php/m, // PHP
+];
+
+/**
+ * Analyze a snippet with the TypeScript parser, or the generic line-based
+ * extraction for other languages
+ */
+export function analyzeCode(code: string): CodeAnalysis {
+  return NON_JS_PATTERNS.some((pattern) => pattern.test(code)) ? analyzeGeneric(code) : analyzeScript(code);
+}
+
+/**
+ * Import bound to a local name, e.g. `ReactDOM` for
+ * `import ReactDOM from 'react-dom'`
+ */
+interface ImportBinding {
+  module: string;
+  /** Exported name; `default` or `*` for default and namespace imports */
+  imported: string;
+}
+
+/**
+ * Name of a called or constructed expression: `a.b.c`, `a().b`, or just
+ * the member name when the object is something more complex
+ */
+function calleeName(node: ts.Expression): string | null {
+  if (ts.isIdentifier(node)) return node.text;
+  if (node.kind === ts.SyntaxKind.ThisKeyword) return 'this';
+  if (ts.isParenthesizedExpression(node) || ts.isNonNullExpression(node) || ts.isAsExpression(node)) {
+    return calleeName(node.expression);
+  }
+  if (ts.isPropertyAccessExpression(node)) {
+    const base = calleeName(node.expression);
+    return base ? `${base}.${node.name.text}` : node.name.text;
+  }
+  if (ts.isCallExpression(node)) {
+    const base = calleeName(node.expression);
+    return base ? `${base}()` : null;
+  }
+  return null;
+}
+
+/**
+ * Module named by a `require('module')` call
+ */
+function requiredModule(node: ts.Node | undefined): string | null {
+  if (
+    node && ts.isCallExpression(node) &&
+    ts.isIdentifier(node.expression) && node.expression.text === 'require' &&
+    node.arguments.length === 1 && ts.isStringLiteralLike(node.arguments[0])
+  ) {
+    return node.arguments[0].text;
+  }
+  return null;
+}
+
+/**
+ * Extract imports and API usage from TypeScript or JavaScript
+ */
+function analyzeScript(code: string): CodeAnalysis {
+  const kind = /<\/|\/>/.test(code) ? ts.ScriptKind.TSX : ts.ScriptKind.TS;
+  const source = ts.createSourceFile('snippet.tsx', code, ts.ScriptTarget.Latest, true, kind);
+  const lineOf = (node: ts.Node) => source.getLineAndCharacterOfPosition(node.getStart(source)).line + 1;
+
+  const collector = new UsageCollector();
+  const bindings = new Map<string, ImportBinding>();
+  const localFunctions = new Set<string>();
+
+  function bindImport(local: string, module: string, imported: string, line: number): void {
+    bindings.set(local, { module, imported });
+    collector.add('import', imported === 'default' || imported === '*' ? module : imported, line, module);
+  }
+
+  // Declarations first, so calls before a hoisted declaration resolve too
+  function declare(node: ts.Node): void {
+    if (ts.isImportDeclaration(node) && ts.isStringLiteral(node.moduleSpecifier)) {
+      const module = node.moduleSpecifier.text;
+      const line = lineOf(node);
+      collector.modules.add(module);
+      const clause = node.importClause;
+      if (!clause) {
+        collector.add('import', module, line, module);
+      } else {
+        if (clause.name) bindImport(clause.name.text, module, 'default', line);
+        const named = clause.namedBindings;
+        if (named && ts.isNamespaceImport(named)) {
+          bindImport(named.name.text, module, '*', line);
+        } else if (named) {
+          for (const element of named.elements) {
+            bindImport(element.name.text, module, (element.propertyName ?? element.name).text, line);
+          }
+        }
+      }
+    } else if (ts.isImportEqualsDeclaration(node) && ts.isExternalModuleReference(node.moduleReference)) {
+      const expression = node.moduleReference.expression;
+      if (ts.isStringLiteral(expression)) {
+        collector.modules.add(expression.text);
+        bindImport(node.name.text, expression.text, '*', lineOf(node));
+      }
+    } else if (ts.isVariableDeclaration(node)) {
+      const module = requiredModule(node.initializer);
+      if (module) {
+        collector.modules.add(module);
+        if (ts.isIdentifier(node.name)) {
+          bindImport(node.name.text, module, '*', lineOf(node));
+        } else if (ts.isObjectBindingPattern(node.name)) {
+          for (const element of node.name.elements) {
+            if (!ts.isIdentifier(element.name)) continue;
+            const imported = element.propertyName && ts.isIdentifier(element.propertyName)
+              ? element.propertyName.text
+              : element.name.text;
+            bindImport(element.name.text, module, imported, lineOf(element));
+          }
+        }
+      } else if (
+        ts.isIdentifier(node.name) && node.initializer &&
+        (ts.isArrowFunction(node.initializer) || ts.isFunctionExpression(node.initializer))
+      ) {
+        localFunctions.add(node.name.text);
+      }
+    } else if (ts.isFunctionDeclaration(node) && node.name) {
+      localFunctions.add(node.name.text);
+    }
+    ts.forEachChild(node, declare);
+  }
+
+  function visit(node: ts.Node): void {
+    if (ts.isCallExpression(node) || ts.isNewExpression(node)) {
+      const name = calleeName(node.expression);
+      const isRequire = ts.isCallExpression(node) && requiredModule(node) !== null;
+      const isDynamicImport = node.expression.kind === ts.SyntaxKind.ImportKeyword;
+      if (isDynamicImport && ts.isCallExpression(node) && node.arguments[0] && ts.isStringLiteralLike(node.arguments[0])) {
+        collector.modules.add(node.arguments[0].text);
+        collector.add('import', node.arguments[0].text, lineOf(node), node.arguments[0].text);
+      } else if (name && !isRequire && !localFunctions.has(name)) {
+        const local = name.split(/[.(]/)[0];
+        const binding = bindings.get(local);
+        // Report renamed imports under their exported name
+        const symbol = binding && binding.imported !== 'default' && binding.imported !== '*'
+          ? `${binding.imported}${name.slice(local.length)}`
+          : name;
+        collector.add(ts.isNewExpression(node) ? 'construct' : 'call', symbol, lineOf(node), binding?.module);
+      }
+    } else if (ts.isClassLike(node)) {
+      // Overridden lifecycle methods (e.g. React's componentWillMount) can be deprecated too
+      const base = node.heritageClauses
+        ?.find((clause) => clause.token === ts.SyntaxKind.ExtendsKeyword)
+        ?.types[0]?.expression;
+      const baseName = base ? calleeName(base) : null;
+      if (baseName) {
+        const binding = bindings.get(baseName.split('.')[0]);
+        for (const member of node.members) {
+          if (ts.isMethodDeclaration(member) && ts.isIdentifier(member.name) && member.name.text !== 'render') {
+            collector.add('method', `${baseName}.${member.name.text}`, lineOf(member), binding?.module);
+          }
+        }
+      }
+    }
+    ts.forEachChild(node, visit);
+  }
+
+  declare(source);
+  visit(source);
+  return collector.result('typescript');
+}
+
+/**
+ * Words followed by "(" that are not function calls
+ */
+const GENERIC_KEYWORDS = new Set([
+  'if', 'for', 'while', 'switch', 'catch', 'return', 'def', 'fn', 'func', 'function', 'elif', 'match',
+  'print', 'and', 'or', 'not', 'in', 'with', 'assert', 'lambda', 'sizeof', 'typeof',
+]);
+
+/**
+ * Line-based extraction for languages without a parser: imports in the
+ * common forms of Python, Go, Rust and Java, and dotted calls
+ */
+function analyzeGeneric(code: string): CodeAnalysis {
+  const collector = new UsageCollector();
+  const declared = new Set<string>();
+  for (const match of code.matchAll(/\b(?:def|fn|func)\s+(\w+)/g)) declared.add(match[1]);
+
+  let inGoImportBlock = false;
+  code.split(/\r?\n/).forEach((rawLine, i) => {
+    const line = i + 1;
+    const text = rawLine.replace(/(#|\/\/).*$/, '').trim();
+    if (!text) return;
+
+    let match: RegExpMatchArray | null;
+    if (inGoImportBlock) {
+      if (text === ')') {
+        inGoImportBlock = false;
+      } else if ((match = text.match(/"([^"]+)"/))) {
+        collector.modules.add(match[1]);
+        collector.add('import', match[1], line, match[1]);
+      }
+      return;
+    }
+    if (/^import\s*\($/.test(text)) {
+      inGoImportBlock = true;
+      return;
+    }
+    if ((match = text.match(/^from\s+([\w.]+)\s+import\s+(.+)$/))) {
+      const module = match[1];
+      collector.modules.add(module);
+      for (const name of match[2].replace(/[()]/g, '').split(',')) {
+        const imported = name.trim().split(/\s+as\s+/)[0];
+        if (imported) collector.add('import', imported, line, module);
+      }
+      return;
+    }
+    if ((match = text.match(/^import\s+(?:static\s+)?"?([\w./*-]+)"?\s*;?$/)) ||
+        (match = text.match(/^(?:pub\s+)?use\s+([\w:]+)/)) ||
+        (match = text.match(/^import\s+([\w.]+)(?:\s+as\s+\w+)?$/))) {
+      collector.modules.add(match[1]);
+      collector.add('import', match[1], line, match[1]);
+      return;
+    }
+
+    for (const call of text.matchAll(/(?<![\w.])((?:[A-Za-z_]\w*(?:\.|::))*[A-Za-z_]\w*)!?\s*\(/g)) {
+      const name = call[1];
+      if (GENERIC_KEYWORDS.has(name) || declared.has(name)) continue;
+      collector.add('call', name, line);
+    }
+  });
+
+  return collector.result('generic');
+}
+
+/**
+ * Maximum number of APIs, and characters of API list, per Perplexity prompt
+ */
+export const DEPRECATION_CHUNK_SIZE = 40;
+export const DEPRECATION_CHUNK_CHARS = 2500;
+
+/**
+ * One line of the API list sent to Perplexity
+ */
+function describeUsage(usage: ApiUsage): string {
+  return `- ${usage.symbol}${usage.module && usage.module !== usage.symbol ? ` (from "${usage.module}")` : ''}`;
+}
+
+/**
+ * Render the API list of one chunk for the prompt
+ */
+export function formatApiList(apis: ApiUsage[]): string {
+  return apis.map(describeUsage).join('\n');
+}
+
+/**
+ * Split the extracted APIs into chunks of at most DEPRECATION_CHUNK_SIZE
+ * entries and DEPRECATION_CHUNK_CHARS characters
+ */
+export function chunkApis(apis: ApiUsage[]): ApiUsage[][] {
+  const chunks: ApiUsage[][] = [];
+  let current: ApiUsage[] = [];
+  let length = 0;
+  for (const usage of apis) {
+    const size = describeUsage(usage).length + 1;
+    if (current.length > 0 && (current.length >= DEPRECATION_CHUNK_SIZE || length + size > DEPRECATION_CHUNK_CHARS)) {
+      chunks.push(current);
+      current = [];
+      length = 0;
+    }
+    current.push(usage);
+    length += size;
+  }
+  if (current.length > 0) chunks.push(current);
+  return chunks;
+}
+
+/**
+ * A deprecated API as reported by Perplexity, before it is mapped to lines
+ */
+interface DeprecationReport {
+  symbol: string;
+  why: string;
+  replacement: string;
+  source?: string;
+}
+
+const CITATION_MARKER = /\[(\d+)\]/g;
+
+/**
+ * Read the deprecated APIs out of Perplexity's answer
+ * @returns The reports, or null when the answer contains no readable list
+ */
+function parseReports(answer: StructuredAnswer): DeprecationReport[] | null {
+  const entries = extractJsonArray(answer);
+  if (!entries) return null;
+
+  const reports: DeprecationReport[] = [];
+  for (const entry of entries) {
+    const fields = entry as Record<string, unknown>;
+    if (typeof fields?.symbol !== 'string' || !fields.symbol.trim()) continue;
+
+    const text = (value: unknown) => (typeof value === 'string' ? value : '');
+    const why = text(fields.why);
+    const replacement = text(fields.replacement);
+    let source = /^https?:\/\//.test(text(fields.source)) ? text(fields.source) : undefined;
+    if (!source) {
+      // Fall back to the first source cited in the explanation
+      const marker = [...`${why} ${replacement} ${text(fields.source)}`.matchAll(CITATION_MARKER)][0];
+      source = marker ? answer.sources[Number(marker[1]) - 1]?.url : undefined;
+    }
+
+    reports.push({
+      symbol: fields.symbol.trim(),
+      why: why.replace(CITATION_MARKER, '').trim(),
+      replacement: replacement.replace(CITATION_MARKER, '').trim(),
+      ...(source ? { source } : {}),
+    });
+  }
+  return reports;
+}
+
+/**
+ * Usages a reported symbol refers to: the exact name, or the same member
+ * under a different qualification (`render` and `ReactDOM.render`).
+ * Identifiers are case-sensitive, so case is ignored only when nothing
+ * matches with it.
+ */
+function matchUsages(symbol: string, apis: ApiUsage[]): ApiUsage[] {
+  const name = symbol.replace(/\(\)$/, '');
+  const match = (fold: (value: string) => string) => {
+    const wanted = fold(name);
+    const exact = apis.filter((usage) => fold(usage.symbol) === wanted);
+    if (exact.length > 0) return exact;
+    return apis.filter((usage) => {
+      const candidate = fold(usage.symbol);
+      return candidate.endsWith(`.${wanted}`) || wanted.endsWith(`.${candidate}`);
+    });
+  };
+  const sameCase = match((value) => value);
+  return sameCase.length > 0 ? sameCase : match((value) => value.toLowerCase());
+}
+
+/**
+ * Turn Perplexity's answer for one chunk into line-level findings
+ * @param answer Answer to the prompt built from `apis`
+ * @param apis APIs of the chunk
+ * @returns The findings, or null when the answer could not be read
+ */
+export function findingsFromAnswer(answer: StructuredAnswer, apis: ApiUsage[]): DeprecationFinding[] | null {
+  const reports = parseReports(answer);
+  if (!reports) return null;
+
+  const findings: DeprecationFinding[] = [];
+  for (const report of reports) {
+    const details = {
+      why: report.why,
+      replacement: report.replacement,
+      ...(report.source ? { source: report.source } : {}),
+    };
+    const usages = matchUsages(report.symbol, apis);
+    if (usages.length === 0) {
+      // Still worth reporting, just not tied to a line
+      findings.push({ line: null, symbol: report.symbol, ...details });
+    }
+    for (const usage of usages) {
+      for (const line of usage.lines) {
+        findings.push({
+          line,
+          symbol: usage.symbol,
+          ...(usage.module ? { module: usage.module } : {}),
+          ...details,
+        });
+      }
+    }
+  }
+  return findings;
+}
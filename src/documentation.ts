@@ -0,0 +1,153 @@
+import { STRUCTURED_ANSWER_SCHEMA } from './answer.js';
+import type { DocumentationAnswer, ResolvedVersion, Source, StructuredAnswer } from './types.js';
+
+// ─── DOCUMENTATION ANSWERS ─────────────────────────────────────────────
+// `get_documentation` answers are split along their Markdown headings into
+// an overview and sections, with fenced code examples collected by language
+// and the cited documentation pages listed separately.
+
+/**
+ * Output schema of `get_documentation`: a structured answer plus the parts
+ * extracted from it
+ */
+export const DOCUMENTATION_ANSWER_SCHEMA = {
+  ...STRUCTURED_ANSWER_SCHEMA,
+  properties: {
+    ...STRUCTURED_ANSWER_SCHEMA.properties,
+    overview: { type: 'string', description: 'Text before the first heading' },
+    sections: {
+      type: 'array',
+      items: {
+        type: 'object',
+        required: ['title', 'level', 'content'],
+        properties: {
+          title: { type: 'string' },
+          level: { type: 'integer' },
+          content: { type: 'string' },
+        },
+      },
+    },
+    code_examples: {
+      type: 'array',
+      items: {
+        type: 'object',
+        required: ['language', 'code'],
+        properties: {
+          language: { type: 'string', description: 'Fence language, "text" when none was given' },
+          code: { type: 'string' },
+          section: { type: 'string' },
+        },
+      },
+    },
+    doc_links: {
+      type: 'array',
+      items: {
+        type: 'object',
+        required: ['title', 'url', 'official'],
+        properties: {
+          title: { type: 'string' },
+          url: { type: 'string' },
+          official: { type: 'boolean', description: 'Whether the page looks like official documentation' },
+        },
+      },
+    },
+    resolved_version: {
+      type: 'object',
+      description: 'Version of the package found in project_path',
+      properties: {
+        package: { type: 'string' },
+        version: { type: 'string' },
+        exact: { type: 'boolean' },
+        source: { type: 'string' },
+      },
+    },
+  },
+};
+
+const HEADING = /^(#{1,6})\s+(.+?)\s*#*$/;
+const FENCE = /^(`{3,}|~{3,})\s*([\w+#.-]*)/;
+
+/**
+ * Whether a cited page looks like official documentation of the technology
+ */
+function isOfficialDocs(source: Source, technology: string): boolean {
+  const name = technology.toLowerCase().replace(/\s+v?\d[\w.]*$/, '').replace(/\.js$/, '').replace(/[^a-z0-9]/g, '');
+  const host = source.domain.toLowerCase();
+  if (/(^|\.)(stackoverflow|medium|dev\.to|reddit|youtube|w3schools|geeksforgeeks)\./.test(`.${host}`)) return false;
+  let path = '';
+  try {
+    path = new URL(source.url).pathname;
+  } catch {
+    // Judge by the host alone
+  }
+  return (name.length > 1 && host.replace(/[^a-z0-9]/g, '').includes(name)) ||
+    /^(docs|developer|developers|api|learn)\./.test(host) ||
+    /\/(docs?|documentation|reference|api)(\/|$)/.test(path);
+}
+
+/**
+ * Split a documentation answer into overview, sections, code examples and
+ * documentation links
+ * @param answer Perplexity's answer
+ * @param technology Technology the documentation is about
+ * @param version Version resolved from the caller's project, if any
+ */
+export function buildDocumentationAnswer(
+  answer: StructuredAnswer,
+  technology: string,
+  version?: ResolvedVersion | null
+): DocumentationAnswer {
+  const overview: string[] = [];
+  const sections: Array<{ title: string; level: number; lines: string[] }> = [];
+  const codeExamples: DocumentationAnswer['code_examples'] = [];
+
+  let fence: { marker: string; language: string; lines: string[] } | null = null;
+  for (const line of answer.answer.split('\n')) {
+    const current = sections[sections.length - 1];
+    const target = current ? current.lines : overview;
+
+    if (fence) {
+      if (line.trim().startsWith(fence.marker)) {
+        codeExamples.push({
+          language: fence.language || 'text',
+          code: fence.lines.join('\n'),
+          ...(current ? { section: current.title } : {}),
+        });
+        fence = null;
+      } else {
+        fence.lines.push(line);
+      }
+      target.push(line);
+      continue;
+    }
+
+    const opening = line.trim().match(FENCE);
+    if (opening) {
+      fence = { marker: opening[1], language: opening[2].toLowerCase(), lines: [] };
+      target.push(line);
+      continue;
+    }
+
+    const heading = line.match(HEADING);
+    if (heading) {
+      sections.push({ title: heading[2], level: heading[1].length, lines: [] });
+      continue;
+    }
+    target.push(line);
+  }
+
+  const cited = new Set(answer.citations.map((citation) => citation.sourceIndex));
+  const docLinks = answer.sources
+    .filter((source) => cited.has(source.index))
+    .map((source) => ({ title: source.title, url: source.url, official: isOfficialDocs(source, technology) }))
+    .sort((a, b) => Number(b.official) - Number(a.official));
+
+  return {
+    ...answer,
+    overview: overview.join('\n').trim(),
+    sections: sections.map(({ title, level, lines }) => ({ title, level, content: lines.join('\n').trim() })),
+    code_examples: codeExamples,
+    doc_links: docLinks,
+    ...(version ? { resolved_version: version } : {}),
+  };
+}
@@ -0,0 +1,272 @@
+import { McpError, ErrorCode } from '@modelcontextprotocol/sdk/types.js';
+import { ProtocolError, TimeoutError } from 'puppeteer';
+
+// ─── ERROR TAXONOMY ────────────────────────────────────────────────────
+// Failures are classified where they happen (the browser layer) instead of
+// by matching error messages later. Each kind maps to a recovery action and
+// to a distinct MCP error code, and clients receive the kind as `data.kind`.
+
+/**
+ * Machine-readable failure category sent to clients as `data.kind`
+ */
+export type ErrorKind =
+  | 'navigation_timeout'
+  | 'answer_timeout'
+  | 'challenge'
+  | 'selector_not_found'
+  | 'browser_crashed'
+  | 'page_crashed'
+  | 'browser_error'
+  | 'rate_limited'
+  | 'invalid_input'
+  | 'cancelled'
+  | 'backend_unavailable'
+  | 'mode_unavailable'
+  | 'fetch_timeout'
+  | 'fetch_failed';
+
+/**
+ * What recoveryProcedure should do after a failure
+ */
+export type RecoveryAction = 'none' | 'reload' | 'new_page' | 'restart_browser';
+
+/**
+ * Recovery policy for each kind of failure
+ */
+export const RECOVERY_POLICY: Record<ErrorKind, RecoveryAction> = {
+  navigation_timeout: 'reload',
+  answer_timeout: 'reload',
+  // Reloading shows the same challenge again
+  challenge: 'none',
+  selector_not_found: 'reload',
+  browser_crashed: 'restart_browser',
+  page_crashed: 'new_page',
+  browser_error: 'reload',
+  rate_limited: 'none',
+  invalid_input: 'none',
+  cancelled: 'none',
+  backend_unavailable: 'none',
+  mode_unavailable: 'none',
+  // Reloading a third-party page would not make it load or change its status
+  fetch_timeout: 'none',
+  fetch_failed: 'none',
+};
+
+/**
+ * JSON-RPC error code returned for each kind of failure. Codes in the
+ * -32010..-32022 range are server-defined.
+ */
+export const MCP_ERROR_CODES: Record<ErrorKind, number> = {
+  navigation_timeout: -32010,
+  answer_timeout: -32011,
+  challenge: -32012,
+  selector_not_found: -32013,
+  browser_crashed: -32014,
+  page_crashed: -32015,
+  browser_error: -32016,
+  rate_limited: -32017,
+  cancelled: -32018,
+  backend_unavailable: -32019,
+  mode_unavailable: -32020,
+  fetch_timeout: -32021,
+  fetch_failed: -32022,
+  invalid_input: ErrorCode.InvalidParams,
+};
+
+/**
+ * Base class of every classified failure
+ */
+export abstract class PerplexityError extends Error {
+  abstract readonly kind: ErrorKind;
+
+  constructor(message: string, public readonly details?: Record<string, unknown>) {
+    super(message);
+    this.name = new.target.name;
+  }
+}
+
+/**
+ * A page navigation did not complete in time
+ */
+export class NavigationTimeoutError extends PerplexityError {
+  readonly kind = 'navigation_timeout';
+}
+
+/**
+ * Perplexity did not finish streaming an answer in time
+ */
+export class AnswerTimeoutError extends PerplexityError {
+  readonly kind = 'answer_timeout';
+}
+
+/**
+ * A CAPTCHA or bot-protection challenge page was shown
+ */
+export class ChallengeError extends PerplexityError {
+  readonly kind = 'challenge';
+}
+
+/**
+ * An element we rely on is missing, usually after a site change
+ */
+export class SelectorNotFoundError extends PerplexityError {
+  readonly kind = 'selector_not_found';
+}
+
+/**
+ * The browser process died or disconnected
+ */
+export class BrowserCrashedError extends PerplexityError {
+  readonly kind = 'browser_crashed';
+}
+
+/**
+ * The page (tab) crashed or was closed under the operation
+ */
+export class PageCrashedError extends PerplexityError {
+  readonly kind = 'page_crashed';
+}
+
+/**
+ * Any other DevTools protocol failure while the browser is still alive
+ */
+export class BrowserProtocolError extends PerplexityError {
+  readonly kind = 'browser_error';
+}
+
+/**
+ * Perplexity refused the request because of rate limiting
+ */
+export class RateLimitedError extends PerplexityError {
+  readonly kind = 'rate_limited';
+}
+
+/**
+ * The tool call arguments were rejected
+ */
+export class InvalidInputError extends PerplexityError {
+  readonly kind = 'invalid_input';
+}
+
+/**
+ * The client cancelled the request while it was being processed
+ */
+export class OperationCancelledError extends PerplexityError {
+  readonly kind = 'cancelled';
+
+  constructor(message = 'Operation cancelled by the client') {
+    super(message);
+  }
+}
+
+/**
+ * Perplexity kept failing and the circuit breaker is open
+ */
+export class BackendUnavailableError extends PerplexityError {
+  readonly kind = 'backend_unavailable';
+
+  constructor(retryAfterSeconds: number) {
+    super(
+      `Perplexity backend unavailable after repeated failures, retry after ${retryAfterSeconds} s`,
+      { retry_after_seconds: retryAfterSeconds }
+    );
+  }
+}
+
+/**
+ * A requested focus mode, Pro Search or model cannot be selected in the
+ * current Perplexity session (e.g. it needs a Pro account)
+ */
+export class ModeUnavailableError extends PerplexityError {
+  readonly kind = 'mode_unavailable';
+}
+
+/**
+ * A page read with fetch_url_content did not load in time
+ */
+export class FetchTimeoutError extends PerplexityError {
+  readonly kind = 'fetch_timeout';
+}
+
+/**
+ * A page read with fetch_url_content could not be loaded, or its site
+ * answered with an HTTP error status
+ */
+export class FetchFailedError extends PerplexityError {
+  readonly kind = 'fetch_failed';
+}
+
+/**
+ * Classify a raw error thrown while driving the browser
+ * @param error The error to classify
+ * @param state Whether the browser is still connected and the page still open
+ * @returns A PerplexityError, or the original error when it is not a
+ *   browser failure
+ */
+export function classifyBrowserError(
+  error: unknown,
+  state: { browserConnected: boolean; pageClosed: boolean }
+): unknown {
+  if (error instanceof PerplexityError) return error;
+
+  if (!(error instanceof Error)) return error;
+
+  if (!state.browserConnected) {
+    return new BrowserCrashedError(`Browser disconnected: ${error.message}`);
+  }
+  if (state.pageClosed) {
+    return new PageCrashedError(`Page closed during operation: ${error.message}`);
+  }
+  if (error instanceof TimeoutError) {
+    return new NavigationTimeoutError(error.message);
+  }
+  if (error instanceof ProtocolError) {
+    return new BrowserProtocolError(error.message);
+  }
+  return error;
+}
+
+/**
+ * Recovery action for an error; unclassified errors are not recovered
+ */
+export function recoveryActionFor(error: unknown): RecoveryAction {
+  return error instanceof PerplexityError ? RECOVERY_POLICY[error.kind] : 'none';
+}
+
+/**
+ * Whether an operation that failed with this error may be retried once
+ * recovery has run: only failures with a recovery action qualify
+ */
+export function isRetryable(error: unknown): boolean {
+  return recoveryActionFor(error) !== 'none';
+}
+
+/**
+ * Whether an error says something about the health of the Perplexity
+ * backend and should count towards opening the circuit breaker
+ */
+export function isBackendFailure(error: unknown): boolean {
+  return (
+    error instanceof PerplexityError &&
+    error.kind !== 'invalid_input' &&
+    error.kind !== 'cancelled' &&
+    error.kind !== 'backend_unavailable' &&
+    error.kind !== 'mode_unavailable' &&
+    error.kind !== 'fetch_timeout' &&
+    error.kind !== 'fetch_failed'
+  );
+}
+
+/**
+ * Translate any error into the McpError returned to the client
+ */
+export function toMcpError(error: unknown): McpError {
+  if (error instanceof McpError) return error;
+
+  if (error instanceof PerplexityError) {
+    return new McpError(MCP_ERROR_CODES[error.kind], error.message, { kind: error.kind, ...error.details });
+  }
+
+  const message = error instanceof Error ? error.message : String(error);
+  return new McpError(ErrorCode.InternalError, message, { kind: 'internal' });
+}
@@ -67,303 +67,277 @@ import { Server } from '@modelcontextprotocol/sdk/server/index.js';
 import { StdioServerTransport } from '@modelcontextprotocol/sdk/server/stdio.js';
 import {
   CallToolRequestSchema,
+  GetPromptRequestSchema,
+  ListPromptsRequestSchema,
+  ListResourceTemplatesRequestSchema,
+  ListResourcesRequestSchema,
   ListToolsRequestSchema,
-  McpError,
-  ErrorCode,
+  ReadResourceRequestSchema,
+  SubscribeRequestSchema,
+  UnsubscribeRequestSchema,
+  type CallToolResult,
+  type ListResourcesResult,
+  type ReadResourceResult,
 } from '@modelcontextprotocol/sdk/types.js';
-import puppeteer, { Browser, Page } from 'puppeteer';
+import { TOOL_DEFINITIONS, getToolDefinition } from './toolSchemas.js';
+import { PROMPT_DEFINITIONS, getPromptDefinition, renderPrompt } from './prompts.js';
+import { validateToolArguments } from './validation.js';
+import type {
+  SearchParams,
+  GetDocumentationParams,
+  FindApisParams,
+  CheckDeprecatedCodeParams,
+  ChatParams,
+  Chat,
+  ChatMessage,
+  StructuredAnswer,
+  ListChatsParams,
+  GetChatParams,
+  SearchChatsParams,
+  ExportChatParams,
+  DeleteChatParams,
+  ImportChatParams,
+  CacheMode,
+  ManageCacheParams,
+  ManageCookiesParams,
+  FetchUrlContentParams,
+  DeprecationFinding,
+  DocumentationAnswer,
+  ResolvedVersion,
+  ApiComparisonAnswer,
+  DeepResearchParams,
+  ResearchReport,
+  SubQueryResult,
+} from './types.js';
+import puppeteer, { Browser, Page, type BrowserContext, type CookieData } from 'puppeteer';
 import Database from 'better-sqlite3';
-import { existsSync, mkdirSync } from 'fs';
-import { dirname, join } from 'path';
-import { fileURLToPath } from 'url'; // Added for ES Module path resolution
+import { existsSync, mkdirSync, readFileSync, statSync, writeFileSync } from 'fs';
+import { dirname } from 'path';
 import crypto from 'crypto';
+import {
+  logDebug,
+  logInfo,
+  logWarn,
+  logError,
+  setLogLevel,
+  redactArguments,
+  startPerformanceMarker,
+  endPerformanceMarker,
+} from './logging.js';
+import { ConfigError, loadConfig, redactConfig, type ConfigSources, type ServerConfig } from './config.js';
+import {
+  PERPLEXITY_URL,
+  runQuery,
+  waitForChallengeCleared,
+  type QueryModes,
+  type RawAnswer,
+} from './perplexity.js';
+import { fetchPageContent } from './reader.js';
+import {
+  buildSearchPrompt,
+  buildDocumentationPrompt,
+  buildFindApisPrompt,
+  buildChatPrompt,
+  buildDeprecationPrompt,
+  buildResearchPlanPrompt,
+  buildResearchReportPrompt,
+} from './queries.js';
+import { analyzeCode, chunkApis, findingsFromAnswer, formatApiList } from './deprecations.js';
+import { buildDocumentationAnswer } from './documentation.js';
+import { buildApiComparison } from './apiComparison.js';
+import {
+  RESEARCH_SEARCH_SHARE,
+  assembleReport,
+  checkReportCitations,
+  formatBibliography,
+  formatFindings,
+  mapWithConcurrency,
+  mergeSources,
+  parseResearchPlan,
+  renumberCitations,
+} from './research.js';
+import { resolveProjectVersion } from './projectVersions.js';
+import { runMigrations } from './migrations.js';
+import { PagePool } from './pagePool.js';
+import { ProgressReporter, raceCancellation, type Operation } from './operation.js';
+import {
+  AnswerTimeoutError,
+  BrowserCrashedError,
+  ChallengeError,
+  InvalidInputError,
+  OperationCancelledError,
+  RateLimitedError,
+  classifyBrowserError,
+  isBackendFailure,
+  isRetryable,
+  recoveryActionFor,
+  toMcpError,
+  type RecoveryAction,
+} from './errors.js';
+import { ResponseCache, normalizeArguments } from './responseCache.js';
+import {
+  CHAT_RESOURCE_PAGE_SIZE,
+  CHAT_RESOURCE_TEMPLATE,
+  ChatHistory,
+  chatIdFromUri,
+  chatResource,
+  formatChatMarkdown,
+  formatChatJson,
+  parseChatExport,
+} from './chatHistory.js';
+import { buildStructuredAnswer, citationsOf, formatAnswer, toCallToolResult } from './answer.js';
+import { convertMarkdown } from './markdown.js';
+import { computeBackoff, retryWithBackoff, type RetryPolicy } from './retry.js';
+import { CircuitBreaker } from './circuitBreaker.js';
+import { RequestBlocker, formatBytes } from './requestBlocker.js';
+import { ProxyRotator, parseProxy, type ProxyEndpoint } from './proxy.js';
+import {
+  formatCookieFile,
+  matchesDomain,
+  parseCookieFile,
+  sessionStateOf,
+  type SessionState,
+} from './cookies.js';
 
-// ─── LOGGING FUNCTIONS ─────────────────────────────────────────────────
-/**
- * Log levels used by the application
- */
-type LogLevel = 'debug' | 'info' | 'warn' | 'error';
-
-/**
- * Performance tracking metrics
- */
-const performanceMarkers: Record<string, number> = {};
-
-/**
- * Format a timestamp for logging
- * @returns Formatted timestamp [YYYY-MM-DD HH:MM:SS.mmm]
- */
-function getTimestamp(): string {
-  const now = new Date();
-  return `[${now.toISOString().replace('T', ' ').replace('Z', '').substring(0, 23)}]`;
-}
-
-/**
- * Safe logging function to handle all types of inputs and prevent JSON parsing errors
- * @param level Log level (debug, info, warn, error)
- * @param message Primary message or object to log
- * @param data Optional additional data to include in the log
- */
-function logMessage(level: LogLevel, message: unknown, data?: unknown): void {
-  let logPrefix = '';
-  
-  switch(level) {
-    case 'debug': logPrefix = '[DEBUG]'; break;
-    case 'info': logPrefix = '[INFO] '; break;
-    case 'warn': logPrefix = '[WARN] '; break;
-    case 'error': logPrefix = '[ERROR]'; break;
-  }
-  
-  let formattedMessage = `${getTimestamp()} ${logPrefix} `;
-  
-  // Format the primary message
-  if (message instanceof Error) {
-    formattedMessage += `${message.name}: ${message.message}`;
-    if (message.stack) {
-      formattedMessage += `\n${message.stack}`;
-    }
-  } else if (typeof message === 'object' && message !== null) {
-    try {
-      formattedMessage += JSON.stringify(message);
-    } catch (e) {
-      formattedMessage += `[Unstringifiable Object: ${Object.prototype.toString.call(message)}]`;
-    }
-  } else {
-    formattedMessage += String(message);
-  }
-  
-  // Add additional data if provided
-  if (data !== undefined) {
-    formattedMessage += ' ';
-    if (data instanceof Error) {
-      formattedMessage += `${data.name}: ${data.message}`;
-      if (data.stack) {
-        formattedMessage += `\n${data.stack}`;
-      }
-    } else if (typeof data === 'object' && data !== null) {
-      try {
-        formattedMessage += JSON.stringify(data);
-      } catch (e) {
-        formattedMessage += `[Unstringifiable Object: ${Object.prototype.toString.call(data)}]`;
-      }
-    } else {
-      formattedMessage += String(data);
-    }
-  }
-  
-  // Use console.error to prevent JSON communication issues
-  console.error(formattedMessage);
-}
-
-/**
- * Log debug information - only shows when DEBUG environment variable is set
- * @param message Primary message or object to log
- * @param data Optional additional data to include in the log
- */
-function logDebug(message: unknown, data?: unknown): void {
-  // Only log debug messages if DEBUG env variable is set
-  if (process.env.DEBUG) {
-    logMessage('debug', message, data);
-  }
-}
-
-/**
- * Log info level messages
- * @param message Primary message or object to log
- * @param data Optional additional data to include in the log
- */
-function logInfo(message: unknown, data?: unknown): void {
-  logMessage('info', message, data);
-}
-
-/**
- * Log warning messages
- * @param message Primary message or object to log
- * @param data Optional additional data to include in the log
- */
-function logWarn(message: unknown, data?: unknown): void {
-  logMessage('warn', message, data);
-}
-
-/**
- * Log error messages
- * @param message Primary message or object to log
- * @param data Optional additional data to include in the log
- */
-function logError(message: unknown, data?: unknown): void {
-  logMessage('error', message, data);
-}
-
-/**
- * Start a performance measurement
- * @param markerId Unique identifier for the performance marker
- */
-function startPerformanceMarker(markerId: string): void {
-  performanceMarkers[markerId] = performance.now();
-  logDebug(`Performance marker started: ${markerId}`);
-}
-
-/**
- * End a performance measurement and log the duration
- * @param markerId Unique identifier for the performance marker
- * @param description Description of the operation being measured
- * @returns Duration in milliseconds
- */
-function endPerformanceMarker(markerId: string, description?: string): number {
-  if (!performanceMarkers[markerId]) {
-    logWarn(`Performance marker not found: ${markerId}`);
-    return 0;
-  }
-  
-  const duration = performance.now() - performanceMarkers[markerId];
-  const desc = description || markerId;
-  
-  logDebug(`${desc} completed in ${duration.toFixed(2)}ms`);
-  
-  delete performanceMarkers[markerId];
-  return duration;
+// Load defaults, config file and PERPLEXITY_* variables; invalid settings stop startup
+let settings: ServerConfig;
+let settingSources: ConfigSources;
+try {
+  ({ config: settings, sources: settingSources } = loadConfig());
+} catch (error) {
+  logError(error instanceof ConfigError ? error.message : 'Failed to load configuration', error instanceof ConfigError ? undefined : error);
+  process.exit(1);
 }
+setLogLevel(settings.logLevel);
 
 // Define server configuration constants
 const CONFIG = {
-  USER_AGENT: 'Mozilla/5.0 (Macintosh; Intel Mac OS X 10_15_7) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/114.0.0.0 Safari/537.36',
+  USER_AGENT: settings.browser.userAgent,
   TIMEOUT_PROFILES: {
-    navigation: 30000,
-    operation: 60000,
-    search: 120000,
-    chat: 120000,
+    navigation: settings.timeouts.navigation,
+    search: settings.timeouts.search,
+    chat: settings.timeouts.chat,
+  },
+  RECOVERY_WAIT_TIME: settings.timeouts.recovery,
+  DB_PATH: settings.database.path,
+  HEADLESS: settings.browser.headless,
+  // Remote Chrome to connect to instead of launching one
+  BROWSER_WS_ENDPOINT: settings.browser.wsEndpoint,
+  BROWSER_URL: settings.browser.browserURL,
+  RECONNECT: {
+    ATTEMPTS: 5,
+    BASE_DELAY: 1000, // doubled for each attempt, with jitter
+    MAX_DELAY: 15000,
+  },
+  EXECUTABLE_PATH: settings.browser.executablePath,
+  // Chrome profile kept between runs: login, preferences and cleared challenges
+  USER_DATA_DIR: settings.browser.userDataDir,
+  VIEWPORT: settings.browser.viewport,
+  BROWSER_ARGS: [
+    '--no-sandbox',
+    '--disable-setuid-sandbox',
+    '--disable-dev-shm-usage',
+    '--disable-accelerated-2d-canvas',
+    '--disable-gpu',
+    `--window-size=${settings.browser.viewport.width},${settings.browser.viewport.height}`,
+    ...settings.browser.args,
+  ],
+  PAGE_POOL_SIZE: settings.browser.pagePoolSize,
+  PAGE_ACQUIRE_TIMEOUT: settings.timeouts.pageAcquire, // how long a tool call may wait for a free page
+  CACHE_TTL: {
+    search: 60 * 60 * 1000, // 1 hour
+    get_documentation: 24 * 60 * 60 * 1000, // 24 hours
+    find_apis: 24 * 60 * 60 * 1000, // 24 hours
+    check_deprecated_code: 24 * 60 * 60 * 1000, // 24 hours, per chunk of APIs
+  } as Record<string, number>,
+  RETRY: {
+    MAX_ATTEMPTS: 3,
+    BASE_DELAY: 1000, // doubled for each retry, with jitter
+    MAX_DELAY: 10000,
+    DEFAULT_DEADLINE: settings.timeouts.operation, // total time budget of one tool call
+    DEADLINES: {
+      chat_perplexity: settings.timeouts.operation + settings.timeouts.chat, // covers the fallback to a new thread
+      deep_research: 30 * 60 * 1000, // bounded by its time_budget_seconds argument instead
+    } as Record<string, number>,
+  },
+  CIRCUIT_BREAKER: {
+    FAILURE_THRESHOLD: 5, // consecutive failures before failing fast
+    COOLDOWN: 60000, // 1 minute
+  },
+  CHALLENGE: {
+    // Open a visible browser window so a person can solve challenges
+    INTERACTIVE: settings.browser.interactiveChallenges,
+    SOLVE_TIMEOUT: settings.browser.challengeSolveTimeout, // how long a request waits for a person
   },
-  RECOVERY_WAIT_TIME: 3000, // 3 seconds
-  DB_SCHEMA: `
-    CREATE TABLE IF NOT EXISTS chat_history (
-      id TEXT PRIMARY KEY,
-      messages TEXT NOT NULL,
-      created_at INTEGER NOT NULL,
-      updated_at INTEGER NOT NULL
-    );
-  `,
-  DEFAULT_CHAT_TIMEOUT: 5 * 60 * 1000, // 5 minutes
+};
+
+/**
+ * Recovery level used by recoveryProcedure for each recovery action
+ */
+const RECOVERY_LEVELS: Record<RecoveryAction, number> = {
+  none: 0,
+  reload: 1, // page refresh
+  new_page: 2,
+  restart_browser: 3,
 };
 
 class PerplexityMCPServer {
   private browser: Browser | null = null;
-  private page: Page | null = null;
+  private pages: PagePool | null = null;
   private db: Database.Database;
+  private chats: ChatHistory;
+  private cache: ResponseCache;
+  private requestBlocker = new RequestBlocker(settings.requestBlocking);
+  private proxies = new ProxyRotator(settings.proxy.servers.map(parseProxy), settings.proxy.rotation);
+  /** Browser contexts routing their pages through one proxy, by proxy server */
+  private proxyContexts = new Map<string, BrowserContext>();
+  /** Proxy each pooled page goes through */
+  private pageProxies = new WeakMap<Page, ProxyEndpoint>();
+  private breaker = new CircuitBreaker({
+    failureThreshold: CONFIG.CIRCUIT_BREAKER.FAILURE_THRESHOLD,
+    cooldown: CONFIG.CIRCUIT_BREAKER.COOLDOWN,
+  });
   private mcpServer: Server;
+  /** Resource URIs clients subscribed to with `resources/subscribe` */
+  private resourceSubscriptions = new Set<string>();
   private operationCount = 0;
+  /** Clearance cookies from solved challenges, reapplied after browser restarts */
+  private challengeCookies: CookieData[] = [];
+  /** Challenge currently being solved by a person, shared by waiting calls */
+  private challengeSolving: Promise<void> | null = null;
+  /** Browser restart or reconnect in progress, shared by concurrent recoveries */
+  private browserRestart: Promise<void> | null = null;
 
   constructor() {
-    const __dirname = dirname(fileURLToPath(import.meta.url));
-    const dbDir = join(__dirname, '..');
+    const source = settingSources.file ? `defaults, ${settingSources.file}` : 'defaults';
+    const env = settingSources.env.length > 0 ? ` and ${settingSources.env.join(', ')}` : '';
+    logInfo(`Configuration loaded from ${source}${env}`, redactConfig(settings));
+    
+    const dbPath = CONFIG.DB_PATH;
+    const dbDir = dirname(dbPath);
     
     // Ensure the directory exists
     if (!existsSync(dbDir)) {
       mkdirSync(dbDir, { recursive: true });
     }
     
-    // Initialize database
-    this.db = new Database(join(dbDir, 'chat_history.db'));
-    this.db.exec(CONFIG.DB_SCHEMA);
+    // Initialize database and bring its schema up to date
+    this.db = new Database(dbPath);
+    try {
+      runMigrations(this.db, dbPath);
+    } catch (error) {
+      this.db.close();
+      throw error;
+    }
+    this.chats = new ChatHistory(this.db);
+    this.cache = new ResponseCache(this.db);
+    this.cache.purge({ expiredOnly: true });
     
-    // Initialize MCP server
+    // Initialize MCP server; tool schemas are advertised from TOOL_DEFINITIONS,
+    // stored chats as resources and PROMPT_DEFINITIONS as prompts
     this.mcpServer = new Server(
-      new StdioServerTransport(),
-      {
-        tools: [
-          {
-            name: 'search',
-            description: 'Search for information on the web using Perplexity.ai',
-            parameters: {
-              type: 'object',
-              required: ['query'],
-              properties: {
-                query: {
-                  type: 'string',
-                  description: 'The search query to submit to Perplexity',
-                },
-                focus: {
-                  type: 'string',
-                  description: 'Optional focus area for the search',
-                  enum: ['brief', 'normal', 'detailed'],
-                  default: 'normal',
-                },
-              },
-            },
-          },
-          {
-            name: 'get_documentation',
-            description: 'Get documentation for a technology, library, or tool',
-            parameters: {
-              type: 'object',
-              required: ['technology'],
-              properties: {
-                technology: {
-                  type: 'string',
-                  description: 'The technology, library, or tool to get documentation for',
-                },
-                context: {
-                  type: 'string',
-                  description: 'Optional context or specific functionality to focus on',
-                },
-              },
-            },
-          },
-          {
-            name: 'find_apis',
-            description: 'Find APIs that match specific requirements',
-            parameters: {
-              type: 'object',
-              required: ['requirements'],
-              properties: {
-                requirements: {
-                  type: 'string',
-                  description: 'Description of what you need the API to do',
-                },
-                context: {
-                  type: 'string',
-                  description: 'Optional additional context or constraints',
-                },
-              },
-            },
-          },
-          {
-            name: 'check_deprecated_code',
-            description: 'Check if code contains deprecated features',
-            parameters: {
-              type: 'object',
-              required: ['code', 'context'],
-              properties: {
-                code: {
-                  type: 'string',
-                  description: 'The code snippet to analyze',
-                },
-                context: {
-                  type: 'string',
-                  description: 'The technology context (e.g., "React 18", "Node.js 20")',
-                },
-              },
-            },
-          },
-          {
-            name: 'chat_perplexity',
-            description: 'Chat with Perplexity AI',
-            parameters: {
-              type: 'object',
-              required: ['message'],
-              properties: {
-                message: {
-                  type: 'string',
-                  description: 'The message to send to Perplexity',
-                },
-                chat_id: {
-                  type: 'string',
-                  description: 'Optional chat ID to continue an existing conversation',
-                },
-              },
-            },
-          },
-        ],
-      }
+      { name: 'perplexity-server', version: '1.0.0' },
+      { capabilities: { tools: {}, resources: { subscribe: true, listChanged: true }, prompts: {} } }
     );
 
     // Log server initialization
@@ -378,71 +352,160 @@ class PerplexityMCPServer {
       // Initialize browser
       startPerformanceMarker('browserInit');
       await this.initializeBrowser();
+      this.pages = new PagePool(() => this.createPage(), {
+        size: CONFIG.PAGE_POOL_SIZE,
+        acquireTimeout: CONFIG.PAGE_ACQUIRE_TIMEOUT,
+      });
+      // Open the first page now so a broken browser setup fails at startup
+      this.pages.release(await this.pages.acquire('Startup'));
       endPerformanceMarker('browserInit', 'Browser initialization');
+      this.logSessionState(await this.sessionState());
       
       // Start listening for requests
       logInfo('Starting MCP server');
-      this.mcpServer.handleListTools(ListToolsRequestSchema, async () => {
+      this.mcpServer.setRequestHandler(ListToolsRequestSchema, async () => {
         logDebug('List tools request received');
-        return {};
+        return { tools: TOOL_DEFINITIONS };
       });
       
-      this.mcpServer.handleCallTool(CallToolRequestSchema, async (request) => {
-        const { tool, parameters } = request;
+      this.mcpServer.setRequestHandler(CallToolRequestSchema, async (request, extra) => {
+        const { name: tool, arguments: args } = request.params;
         const opId = ++this.operationCount;
+        const operation: Operation = {
+          id: opId,
+          tool,
+          startedAt: Date.now(),
+          signal: extra.signal,
+          progress: new ProgressReporter(request.params._meta?.progressToken, extra.sendNotification),
+        };
+        
+        logInfo(`Tool call #${opId}: ${tool}`, redactArguments(args));
+        
+        const definition = getToolDefinition(tool);
+        if (!definition) {
+          throw toMcpError(new InvalidInputError(`Unknown tool: ${tool}`));
+        }
         
-        logInfo(`Tool call #${opId}: ${tool}`, parameters);
         startPerformanceMarker(`op-${opId}`);
         
         try {
-          let result: unknown;
+          let result: string | StructuredAnswer | CallToolResult;
           
           switch (tool) {
             case 'search':
-              result = await this.handleSearch(parameters, opId);
+              result = await this.handleSearch(validateToolArguments<SearchParams>(definition, args), operation);
               break;
             case 'get_documentation':
-              result = await this.handleGetDocumentation(parameters, opId);
+              result = await this.handleGetDocumentation(validateToolArguments<GetDocumentationParams>(definition, args), operation);
               break;
             case 'find_apis':
-              result = await this.handleFindAPIs(parameters, opId);
+              result = await this.handleFindAPIs(validateToolArguments<FindApisParams>(definition, args), operation);
               break;
             case 'check_deprecated_code':
-              result = await this.handleCheckDeprecatedCode(parameters, opId);
+              result = await this.handleCheckDeprecatedCode(validateToolArguments<CheckDeprecatedCodeParams>(definition, args), operation);
               break;
             case 'chat_perplexity':
-              result = await this.handleChat(parameters, opId);
+              result = await this.handleChat(validateToolArguments<ChatParams>(definition, args), operation);
+              break;
+            case 'list_chats':
+              result = this.handleListChats(validateToolArguments<ListChatsParams>(definition, args));
+              break;
+            case 'get_chat':
+              result = this.handleGetChat(validateToolArguments<GetChatParams>(definition, args));
+              break;
+            case 'search_chats':
+              result = this.handleSearchChats(validateToolArguments<SearchChatsParams>(definition, args));
+              break;
+            case 'export_chat':
+              result = this.handleExportChat(validateToolArguments<ExportChatParams>(definition, args));
+              break;
+            case 'delete_chat':
+              result = this.handleDeleteChat(validateToolArguments<DeleteChatParams>(definition, args), opId);
+              break;
+            case 'import_chat':
+              result = this.handleImportChat(validateToolArguments<ImportChatParams>(definition, args), opId);
+              break;
+            case 'manage_cache':
+              result = this.handleManageCache(validateToolArguments<ManageCacheParams>(definition, args), opId);
+              break;
+            case 'manage_cookies':
+              result = await this.handleManageCookies(validateToolArguments<ManageCookiesParams>(definition, args), opId);
+              break;
+            case 'deep_research':
+              result = await this.handleDeepResearch(validateToolArguments<DeepResearchParams>(definition, args), operation);
+              break;
+            case 'fetch_url_content':
+              result = await this.handleFetchUrlContent(validateToolArguments<FetchUrlContentParams>(definition, args), operation);
               break;
             default:
-              throw new McpError(
-                ErrorCode.InvalidArgument,
-                `Unknown tool: ${tool}`
-              );
+              throw new InvalidInputError(`Unknown tool: ${tool}`);
           }
           
           const duration = endPerformanceMarker(`op-${opId}`, `Operation #${opId}`);
           logInfo(`Tool call #${opId} completed in ${duration.toFixed(2)}ms`);
           
-          return { result };
+          if (typeof result === 'string') {
+            return { content: [{ type: 'text', text: result }] };
+          }
+          return 'content' in result ? result : toCallToolResult(result);
         } catch (error) {
           // End performance marker even on error
           endPerformanceMarker(`op-${opId}`);
           
           logError(`Tool call #${opId} failed: ${tool}`, error);
           
-          // Attempt recovery if this looks like a browser/page issue
-          if (this.shouldAttemptRecovery(error)) {
-            logInfo(`Attempting recovery for operation #${opId}`);
-            await this.recoveryProcedure(error instanceof Error ? error : new Error(String(error)));
+          // Translate to an McpError whose code and data.kind identify the failure
+          throw toMcpError(error);
+        }
+      });
+      
+      this.mcpServer.setRequestHandler(ListResourcesRequestSchema, async (request) => {
+        logDebug('List resources request received');
+        return this.listChatResources(request.params?.cursor);
+      });
+      
+      this.mcpServer.setRequestHandler(ListResourceTemplatesRequestSchema, async () => ({
+        resourceTemplates: [CHAT_RESOURCE_TEMPLATE],
+      }));
+      
+      this.mcpServer.setRequestHandler(ReadResourceRequestSchema, async (request) => {
+        try {
+          return this.readChatResource(request.params.uri);
+        } catch (error) {
+          throw toMcpError(error);
+        }
+      });
+      
+      this.mcpServer.setRequestHandler(SubscribeRequestSchema, async (request) => {
+        this.resourceSubscriptions.add(request.params.uri);
+        logDebug(`Subscribed to ${request.params.uri}`);
+        return {};
+      });
+      
+      this.mcpServer.setRequestHandler(UnsubscribeRequestSchema, async (request) => {
+        this.resourceSubscriptions.delete(request.params.uri);
+        return {};
+      });
+      
+      this.mcpServer.setRequestHandler(ListPromptsRequestSchema, async () => ({
+        prompts: PROMPT_DEFINITIONS,
+      }));
+      
+      this.mcpServer.setRequestHandler(GetPromptRequestSchema, async (request) => {
+        const { name, arguments: args } = request.params;
+        try {
+          const definition = getPromptDefinition(name);
+          if (!definition) {
+            throw new InvalidInputError(`Unknown prompt: ${name}`);
           }
-          
-          // Re-throw the error to be handled by MCP server
-          throw error;
+          return renderPrompt(definition, args);
+        } catch (error) {
+          throw toMcpError(error);
         }
       });
       
       // Start listening
-      this.mcpServer.listen();
+      await this.mcpServer.connect(new StdioServerTransport());
       logInfo('MCP server started and listening for requests');
       
     } catch (error) {
@@ -461,22 +524,17 @@ class PerplexityMCPServer {
     logInfo('Initializing browser');
     
     try {
-      this.browser = await puppeteer.launch({
-        headless: 'new',
-        args: [
-          '--no-sandbox',
-          '--disable-setuid-sandbox',
-          '--disable-dev-shm-usage',
-          '--disable-accelerated-2d-canvas',
-          '--disable-gpu',
-          '--window-size=1920,1080',
-        ],
-      });
-      
-      this.page = await this.browser.newPage();
-      await this.setupBrowserEvasion();
-      await this.page.setViewport({ width: 1920, height: 1080 });
-      await this.page.setUserAgent(CONFIG.USER_AGENT);
+      this.browser = this.isRemoteBrowser()
+        ? await this.connectBrowser()
+        : await puppeteer.launch({
+          headless: CONFIG.HEADLESS,
+          executablePath: CONFIG.EXECUTABLE_PATH,
+          args: [...CONFIG.BROWSER_ARGS, ...this.launchProxyArgs()],
+          userDataDir: CONFIG.USER_DATA_DIR,
+        });
+      if (this.challengeCookies.length > 0) {
+        await this.browser.setCookie(...this.challengeCookies);
+      }
       
       logInfo('Browser initialized successfully');
     } catch (error) {
@@ -486,19 +544,189 @@ class PerplexityMCPServer {
   }
 
   /**
-   * Set up browser evasion techniques to avoid detection
+   * Whether the server uses a Chrome it does not own, started elsewhere
+   * with remote debugging enabled
+   */
+  private isRemoteBrowser(): boolean {
+    return Boolean(CONFIG.BROWSER_WS_ENDPOINT || CONFIG.BROWSER_URL);
+  }
+
+  /**
+   * Connect to the remote Chrome, retrying with backoff while it is
+   * (re)starting, and reconnect whenever the connection drops
+   * @throws The last connection error once all attempts failed
    */
-  private async setupBrowserEvasion(): Promise<void> {
-    if (!this.page) {
-      logError('Cannot set up browser evasion: page is null');
-      return;
+  private async connectBrowser(): Promise<Browser> {
+    const endpoint = CONFIG.BROWSER_WS_ENDPOINT
+      ? { browserWSEndpoint: CONFIG.BROWSER_WS_ENDPOINT }
+      : { browserURL: CONFIG.BROWSER_URL };
+    
+    for (let attempt = 1; ; attempt++) {
+      try {
+        // Keep the remote browser's window size; pages set their own viewport
+        const browser = await puppeteer.connect({ ...endpoint, defaultViewport: null });
+        logInfo('Connected to remote browser (launch settings such as headless, args and userDataDir do not apply)');
+        
+        browser.once('disconnected', () => {
+          // Our own disconnects clear this.browser first
+          if (this.browser !== browser) return;
+          logWarn('Remote browser disconnected, reconnecting');
+          this.restartBrowser().catch((error) => logError('Reconnecting to the remote browser failed', error));
+        });
+        return browser;
+      } catch (error) {
+        if (attempt >= CONFIG.RECONNECT.ATTEMPTS) throw error;
+        const delay = computeBackoff(attempt, {
+          baseDelay: CONFIG.RECONNECT.BASE_DELAY,
+          maxDelay: CONFIG.RECONNECT.MAX_DELAY,
+        });
+        logWarn(`Connecting to remote browser failed (attempt ${attempt}/${CONFIG.RECONNECT.ATTEMPTS}), retrying in ${delay}ms`, error);
+        await new Promise((resolve) => setTimeout(resolve, delay));
+      }
+    }
+  }
+
+  /**
+   * Whether pages get their proxy from a per-proxy browser context rather
+   * than from --proxy-server: needed to rotate between several proxies, and
+   * for a remote browser whose launch arguments we do not control
+   */
+  private useProxyContexts(): boolean {
+    return this.proxies.rotating || (this.proxies.enabled && this.isRemoteBrowser());
+  }
+
+  /**
+   * Launch arguments routing the whole browser through the single proxy
+   */
+  private launchProxyArgs(): string[] {
+    const proxy = this.proxies.current();
+    if (!proxy || this.useProxyContexts()) return [];
+    
+    const args = [`--proxy-server=${proxy.server}`];
+    if (settings.proxy.bypass.length > 0) {
+      args.push(`--proxy-bypass-list=${settings.proxy.bypass.join(';')}`);
     }
+    return args;
+  }
+
+  /**
+   * Browser context whose pages go through a proxy, created on first use
+   * with the cookies (login) of the default context
+   */
+  private async proxyContext(proxy: ProxyEndpoint): Promise<BrowserContext> {
+    const existing = this.proxyContexts.get(proxy.server);
+    if (existing) return existing;
+    
+    const context = await this.browser!.createBrowserContext({
+      proxyServer: proxy.server,
+      proxyBypassList: settings.proxy.bypass.length > 0 ? settings.proxy.bypass : undefined,
+    });
+    const cookies = await this.browser!.cookies();
+    if (cookies.length > 0) {
+      await context.setCookie(...cookies);
+    }
+    this.proxyContexts.set(proxy.server, context);
+    return context;
+  }
+
+  /**
+   * Let go of the browser: close it when we launched it, only disconnect
+   * from a remote browser we do not own
+   */
+  private async releaseBrowser(): Promise<void> {
+    const browser = this.browser;
+    if (!browser) return;
+    this.browser = null;
     
+    const contexts = [...this.proxyContexts.values()];
+    this.proxyContexts.clear();
+    
+    if (this.isRemoteBrowser()) {
+      // Contexts we created would outlive the connection
+      await Promise.all(contexts.map((context) => context.close().catch(() => undefined)));
+      await browser.disconnect().catch((error) => logDebug('Disconnecting from remote browser failed', error));
+    } else {
+      await browser.close();
+    }
+  }
+
+  /**
+   * Drop every page of the current browser and relaunch or reconnect it.
+   * Concurrent callers share the same restart.
+   */
+  private restartBrowser(): Promise<void> {
+    if (!this.browserRestart) {
+      this.browserRestart = (async () => {
+        // Pages of the old browser are discarded as their operations release them
+        this.pages?.invalidate();
+        await this.releaseBrowser();
+        await new Promise(resolve => setTimeout(resolve, CONFIG.RECOVERY_WAIT_TIME));
+        await this.initializeBrowser();
+      })().finally(() => {
+        this.browserRestart = null;
+      });
+    }
+    return this.browserRestart;
+  }
+
+  /**
+   * Whether the browser profile holds a Perplexity login
+   */
+  private async sessionState(): Promise<SessionState> {
+    if (!this.browser) {
+      throw new Error('Browser is not initialized');
+    }
+    return sessionStateOf(await this.browser.cookies());
+  }
+
+  /**
+   * Log the login state of the browser profile
+   */
+  private logSessionState(state: SessionState): void {
+    if (state.logged_in) {
+      const expiry = state.expires_at ? `, session expires ${new Date(state.expires_at).toISOString()}` : '';
+      logInfo(`Perplexity session: logged in${expiry}`);
+    } else {
+      const profile = CONFIG.USER_DATA_DIR ? `profile ${CONFIG.USER_DATA_DIR}` : 'temporary profile';
+      logInfo(`Perplexity session: not logged in (${profile}); import cookies with manage_cookies to use an account`);
+    }
+  }
+
+  /**
+   * Open a new page in the browser with evasion, viewport and user agent set up
+   */
+  private async createPage(): Promise<Page> {
+    // Also the state after a restart or reconnect gave up: withPage recovers from it
+    if (!this.browser || !this.browser.connected) {
+      throw new BrowserCrashedError('Browser is not running');
+    }
+    
+    const proxy = this.proxies.forNewPage();
+    const page = proxy && this.useProxyContexts()
+      ? await (await this.proxyContext(proxy)).newPage()
+      : await this.browser.newPage();
+    if (proxy) {
+      this.pageProxies.set(page, proxy);
+      if (proxy.username) {
+        await page.authenticate({ username: proxy.username, password: proxy.password ?? '' });
+      }
+    }
+    await this.setupBrowserEvasion(page);
+    await page.setViewport(CONFIG.VIEWPORT);
+    await page.setUserAgent(CONFIG.USER_AGENT);
+    await this.requestBlocker.attach(page);
+    return page;
+  }
+
+  /**
+   * Set up browser evasion techniques to avoid detection
+   */
+  private async setupBrowserEvasion(page: Page): Promise<void> {
     try {
       logDebug('Setting up browser evasion');
       
       // Override navigator properties to avoid detection
-      await this.page.evaluateOnNewDocument(() => {
+      await page.evaluateOnNewDocument(() => {
         // Overwrite the languages property to make it look more natural
         Object.defineProperty(navigator, 'languages', {
           get: () => ['en-US', 'en', 'es'],
@@ -563,17 +791,14 @@ class PerplexityMCPServer {
     logInfo('Cleaning up resources');
     
     try {
-      // Close the page if it exists
-      if (this.page) {
-        await this.page.close();
-        this.page = null;
+      // Close all pages and reject queued requests
+      if (this.pages) {
+        await this.pages.close();
+        this.pages = null;
       }
       
-      // Close the browser if it exists
-      if (this.browser) {
-        await this.browser.close();
-        this.browser = null;
-      }
+      // Close the browser, or disconnect from a remote one
+      await this.releaseBrowser();
       
       // Close the database connection
       if (this.db) {
@@ -587,59 +812,24 @@ class PerplexityMCPServer {
   }
 
   /**
-   * Determine if we should attempt recovery for a given error
+   * Determine the level of recovery needed based on the error's kind
+   * @returns 0 when the error should not trigger recovery
    */
-  private shouldAttemptRecovery(error: unknown): boolean {
-    const errorStr = String(error);
-    
-    // Check for common browser/page errors that can be recovered from
-    return (
-      errorStr.includes('Protocol error') ||
-      errorStr.includes('Target closed') ||
-      errorStr.includes('Session closed') ||
-      errorStr.includes('Navigation timeout') ||
-      errorStr.includes('timeout') ||
-      errorStr.includes('Execution context was destroyed') ||
-      errorStr.includes('Cannot find context with specified id') ||
-      errorStr.includes('CAPTCHA')
-    );
+  private determineRecoveryLevel(error: unknown): number {
+    return RECOVERY_LEVELS[recoveryActionFor(error)];
   }
 
   /**
-   * Determine the level of recovery needed based on the error
+   * Recovery procedure to handle browser/page issues, scoped to the page
+   * the failed operation was using
+   * @param error The error that triggered recovery
+   * @param page Page leased by the failed operation
+   * @param level Recovery level to use instead of deriving it from the error
+   * @returns The page the operation should release (reloaded, replaced, or
+   *   stale after a browser restart)
    */
-  private determineRecoveryLevel(error?: Error): number {
-    if (!error) return 1; // Default to page refresh
-    
-    const errorStr = error.toString().toLowerCase();
-    
-    // Level 3 (full restart) for severe issues
-    if (
-      errorStr.includes('session closed') ||
-      errorStr.includes('target closed') ||
-      errorStr.includes('browser disconnected')
-    ) {
-      return 3;
-    }
-    
-    // Level 2 (new page) for page-specific issues
-    if (
-      errorStr.includes('execution context') ||
-      errorStr.includes('cannot find context') ||
-      errorStr.includes('frame detached')
-    ) {
-      return 2;
-    }
-    
-    // Level 1 (page refresh) for mild issues or captcha
-    return 1;
-  }
-
-  /**
-   * Recovery procedure to handle browser/page issues
-   */
-  private async recoveryProcedure(error?: Error): Promise<void> {
-    const recoveryLevel = this.determineRecoveryLevel(error);
+  private async recoveryProcedure(error: unknown, page: Page, level?: number): Promise<Page> {
+    const recoveryLevel = level ?? Math.max(this.determineRecoveryLevel(error), 1);
     const opId = ++this.operationCount;
     const markerId = `recovery-${opId}`;
     
@@ -648,46 +838,29 @@ class PerplexityMCPServer {
     startPerformanceMarker(markerId);
 
     try {
+      let current = page;
       switch(recoveryLevel) {
         case 1: // Page refresh
           logError('Recovery: Attempting page refresh');
-          if (this.page) {
-            await this.page.reload({timeout: CONFIG.TIMEOUT_PROFILES.navigation});
-          }
+          await page.reload({timeout: CONFIG.TIMEOUT_PROFILES.navigation});
           break;
 
         case 2: // New page
           logError('Recovery: Creating new page instance');
-          if (this.page) {
-            await this.page.close();
-          }
-          if (this.browser) {
-            this.page = await this.browser.newPage();
-            await this.setupBrowserEvasion();
-            await this.page.setViewport({ width: 1920, height: 1080 });
-            await this.page.setUserAgent(CONFIG.USER_AGENT);
-          }
+          current = await this.pages!.replace(page);
           break;
 
         case 3: // Full restart
         default:
-          logError('Recovery: Performing full browser restart');
-          if (this.page) {
-            await this.page.close();
-          }
-          if (this.browser) {
-            await this.browser.close();
-          }
-          this.page = null;
-          this.browser = null;
-          await new Promise(resolve => setTimeout(resolve, CONFIG.RECOVERY_WAIT_TIME));
-          await this.initializeBrowser();
+          logError(`Recovery: Performing full browser ${this.isRemoteBrowser() ? 'reconnect' : 'restart'}`);
+          await this.restartBrowser();
           break;
       }
 
       const duration = endPerformanceMarker(markerId);
       // CRITICAL FIX: Use logError instead of logInfo for recovery completion message
       logError(`Recovery completed in ${duration.toFixed(2)}ms`);
+      return current;
     } catch (recoveryError) {
       endPerformanceMarker(markerId);
       logError('Recovery failed', recoveryError);
@@ -695,7 +868,7 @@ class PerplexityMCPServer {
       // Fall back to more aggressive recovery if initial attempt fails
       if (recoveryLevel < 3) {
         logError('Attempting higher level recovery');
-        await this.recoveryProcedure(new Error('Fallback recovery'));
+        return this.recoveryProcedure(error, page, recoveryLevel + 1);
       } else {
         throw recoveryError;
       }
@@ -703,114 +876,1045 @@ class PerplexityMCPServer {
   }
 
   /**
-   * Handle search requests
+   * Run a browser operation on a page leased from the pool, recovering that
+   * page if the operation fails with a browser/page error. When the client
+   * cancels, the operation is interrupted, its page reset to a blank state
+   * and the page returned to the pool.
+   * @param operation Context of the tool call
+   * @param task Work to perform with the leased page
+   */
+  private async withPage<T>(operation: Operation, task: (page: Page) => Promise<T>): Promise<T> {
+    if (!this.pages) {
+      throw new Error('Browser is not initialized');
+    }
+    
+    let page: Page;
+    try {
+      page = await this.pages.acquire(`Operation #${operation.id}`, operation.signal);
+    } catch (error) {
+      // No page can be opened without a browser: relaunch or reconnect it, so
+      // the retry (or the next call) finds one even after an earlier restart failed
+      const classified = classifyBrowserError(error, {
+        browserConnected: this.browser?.connected ?? false,
+        pageClosed: false,
+      });
+      if (classified instanceof BrowserCrashedError) {
+        logInfo(`Operation #${operation.id} found no running browser, attempting recovery`);
+        await this.restartBrowser().catch((recoveryError) =>
+          logError(`Recovery for operation #${operation.id} failed`, recoveryError)
+        );
+      }
+      throw classified;
+    }
+    let leased = page;
+    const proxy = this.pageProxies.get(page);
+    if (proxy) {
+      logInfo(`Operation #${operation.id} using proxy ${proxy.server}`);
+    }
+    const running = task(page);
+    try {
+      return await raceCancellation(running, operation.signal);
+    } catch (error) {
+      if (operation.signal.aborted) {
+        logInfo(`Operation #${operation.id} cancelled, resetting its page`);
+        leased = await this.resetPage(page);
+        // Let the interrupted task unwind before the page is handed to someone else
+        await Promise.race([
+          running.catch(() => undefined),
+          new Promise((resolve) => setTimeout(resolve, CONFIG.TIMEOUT_PROFILES.navigation)),
+        ]);
+        throw error instanceof OperationCancelledError ? error : new OperationCancelledError();
+      }
+      
+      const classified = classifyBrowserError(error, {
+        browserConnected: this.browser?.connected ?? false,
+        pageClosed: page.isClosed(),
+      });
+      this.rotateProxyAfter(classified, page);
+      
+      // Attempt recovery according to the policy for this kind of failure
+      const level = this.determineRecoveryLevel(classified);
+      if (level > 0) {
+        logInfo(`Attempting recovery for operation #${operation.id}`);
+        try {
+          leased = await this.recoveryProcedure(classified, page, level);
+        } catch (recoveryError) {
+          logError(`Recovery for operation #${operation.id} failed`, recoveryError);
+        }
+      }
+      throw classified;
+    } finally {
+      this.logBlockedRequests(operation, leased);
+      this.pages?.release(leased);
+    }
+  }
+
+  /**
+   * Stop using a proxy that was rate limited or challenged. With `on_error`
+   * rotation every page moves on to the next proxy; with `per_page` only
+   * the failed page is dropped.
+   * @param error Classified failure of an operation
+   * @param page Page the operation ran on
+   */
+  private rotateProxyAfter(error: unknown, page: Page): void {
+    if (!this.proxies.rotating) return;
+    if (!(error instanceof RateLimitedError || error instanceof ChallengeError)) return;
+    
+    if (this.proxies.rotation === 'on_error') {
+      this.proxies.rotate(error.kind);
+      this.pages?.invalidate();
+    } else {
+      logInfo(`Dropping page on proxy ${this.pageProxies.get(page)?.server} after ${error.kind}`);
+      this.pages?.retire(page);
+    }
+  }
+
+  /**
+   * Log at debug level what request blocking saved during an operation
    */
-  private async handleSearch(parameters: any, opId: number): Promise<string> {
-    const { query, focus = 'normal' } = parameters;
+  private logBlockedRequests(operation: Operation, page: Page): void {
+    const stats = this.requestBlocker.takeStats(page);
+    if (stats.blocked === 0) return;
     
-    if (!query) {
-      throw new McpError(
-        ErrorCode.InvalidArgument,
-        'Search query is required'
+    const total = this.requestBlocker.totals();
+    const types = Object.entries(stats.byType).map(([type, count]) => `${type} ${count}`).join(', ');
+    logDebug(
+      `Operation #${operation.id} blocked ${stats.blocked} requests (${types}), ~${formatBytes(stats.estimatedBytes)} saved; ` +
+      `since start ${total.blocked} requests, ~${formatBytes(total.estimatedBytes)}`
+    );
+  }
+
+  /**
+   * Navigate a page to about:blank, interrupting whatever it was doing, or
+   * replace it if that fails
+   * @returns The page to release
+   */
+  private async resetPage(page: Page): Promise<Page> {
+    try {
+      await page.goto('about:blank', { timeout: CONFIG.TIMEOUT_PROFILES.navigation });
+      return page;
+    } catch (error) {
+      logWarn('Failed to reset page, replacing it', error);
+      return this.pages!.replace(page);
+    }
+  }
+
+  /**
+   * Run a browser operation through the circuit breaker, retrying failures
+   * that recovery can fix with exponential backoff until the attempts or
+   * the tool's deadline run out
+   * @param operation Context of the tool call
+   * @param task One attempt of the work
+   * @throws BackendUnavailableError without trying while the breaker is open
+   */
+  private async withRetry<T>(operation: Operation, task: () => Promise<T>): Promise<T> {
+    return retryWithBackoff(async () => {
+      const trial = this.breaker.check();
+      try {
+        const result = await this.withChallengeHandling(operation, task);
+        this.breaker.recordSuccess();
+        return result;
+      } catch (error) {
+        if (isBackendFailure(error)) {
+          this.breaker.recordFailure(trial);
+        } else {
+          this.breaker.recordNeutral(trial);
+        }
+        throw error;
+      }
+    }, this.retryPolicy(operation), {
+      startedAt: operation.startedAt,
+      // Another proxy may not be throttled or challenged
+      shouldRetry: (error) => isRetryable(error) ||
+        (this.proxies.rotating && (error instanceof RateLimitedError || error instanceof ChallengeError)),
+      signal: operation.signal,
+      label: `Operation #${operation.id}`,
+    });
+  }
+
+  /**
+   * Attempt and time bounds for retrying a tool call
+   */
+  private retryPolicy(operation: Operation): RetryPolicy {
+    return {
+      maxAttempts: CONFIG.RETRY.MAX_ATTEMPTS,
+      deadline: CONFIG.RETRY.DEADLINES[operation.tool] ?? CONFIG.RETRY.DEFAULT_DEADLINE,
+      baseDelay: CONFIG.RETRY.BASE_DELAY,
+      maxDelay: CONFIG.RETRY.MAX_DELAY,
+    };
+  }
+
+  /**
+   * Run one attempt of a browser operation. When it hits a challenge, either
+   * have a person solve it and run the attempt again (interactive mode) or
+   * fail with a challenge error telling the client to back off.
+   * @param operation Context of the tool call
+   * @param task One attempt of the work
+   */
+  private async withChallengeHandling<T>(operation: Operation, task: () => Promise<T>): Promise<T> {
+    try {
+      return await task();
+    } catch (error) {
+      if (!(error instanceof ChallengeError)) throw error;
+      
+      if (!CONFIG.CHALLENGE.INTERACTIVE) {
+        throw new ChallengeError(
+          `${error.message}. Running unattended, so it cannot be solved here: back off before retrying`,
+          { ...error.details, unattended: true }
+        );
+      }
+      
+      const url = typeof error.details?.url === 'string' ? error.details.url : PERPLEXITY_URL;
+      await this.solveChallenge(operation, url);
+      return task();
+    }
+  }
+
+  /**
+   * Wait for a person to solve a challenge in a visible browser window. Calls
+   * that hit a challenge while one is being solved wait for the same window.
+   * @param operation Context of the waiting tool call
+   * @param url Page that showed the challenge
+   */
+  private async solveChallenge(operation: Operation, url: string): Promise<void> {
+    if (!this.challengeSolving) {
+      this.challengeSolving = this.runChallengeWindow(url).finally(() => {
+        this.challengeSolving = null;
+      });
+    }
+    logInfo(`Operation #${operation.id} waiting for a challenge to be solved`);
+    await raceCancellation(this.challengeSolving, operation.signal);
+  }
+
+  /**
+   * Open the challenge in a headful browser, wait until it is solved and copy
+   * the resulting clearance cookies into the main browser
+   * @throws ChallengeError when no window can be opened or nobody solves it in time
+   */
+  private async runChallengeWindow(url: string): Promise<void> {
+    const timeout = CONFIG.CHALLENGE.SOLVE_TIMEOUT;
+    logWarn(`Bot-protection challenge at ${url}: opening a browser window, solve it within ${timeout / 1000}s`);
+    
+    let solver: Browser;
+    try {
+      // Clearance is tied to the IP address, so solve through the same proxy
+      const proxy = this.proxies.current();
+      solver = await puppeteer.launch({
+        headless: false,
+        executablePath: CONFIG.EXECUTABLE_PATH,
+        args: proxy ? [...CONFIG.BROWSER_ARGS, `--proxy-server=${proxy.server}`] : CONFIG.BROWSER_ARGS,
+      });
+    } catch (error) {
+      throw new ChallengeError(
+        `Perplexity presented a bot-protection challenge and no browser window could be opened to solve it: ${error instanceof Error ? error.message : String(error)}`,
+        { url, unattended: true }
       );
     }
     
-    logInfo(`Search #${opId} query: ${query}, focus: ${focus}`);
-    // Implementation would go here
+    try {
+      const page = await solver.newPage();
+      const proxy = this.proxies.current();
+      if (proxy?.username) {
+        await page.authenticate({ username: proxy.username, password: proxy.password ?? '' });
+      }
+      await this.setupBrowserEvasion(page);
+      // Clearance cookies are tied to the user agent that solved the challenge
+      await page.setUserAgent(CONFIG.USER_AGENT);
+      await page.goto(url, { waitUntil: 'domcontentloaded', timeout: CONFIG.TIMEOUT_PROFILES.navigation })
+        .catch((error) => logWarn('Challenge window navigation did not complete', error));
+      
+      if (!(await waitForChallengeCleared(page, timeout))) {
+        throw new ChallengeError(
+          `Bot-protection challenge at ${url} was not solved within ${timeout / 1000}s`,
+          { url, solve_timeout_ms: timeout }
+        );
+      }
+      
+      this.challengeCookies = await solver.cookies();
+      if (this.browser) {
+        await this.browser.setCookie(...this.challengeCookies);
+      }
+      for (const context of this.proxyContexts.values()) {
+        await context.setCookie(...this.challengeCookies);
+      }
+      logInfo(`Challenge solved, copied ${this.challengeCookies.length} cookies into the browser`);
+    } finally {
+      await solver.close().catch(() => undefined);
+    }
+  }
+
+  /**
+   * Submit a prompt to Perplexity on a pooled page, retrying on failure
+   * @param operation Context of the tool call
+   * @param prompt Prompt to submit
+   * @param answerTimeout Maximum time to wait for the answer
+   * @param threadUrl Existing Perplexity thread to continue
+   * @param modes Source focus, Pro Search and model to select first
+   */
+  private async queryPerplexity(
+    operation: Operation,
+    prompt: string,
+    answerTimeout: number,
+    threadUrl?: string,
+    modes?: QueryModes
+  ): Promise<RawAnswer> {
+    return this.withRetry(operation, () =>
+      this.withPage(operation, (page) =>
+        runQuery(page, prompt, {
+          navigation: CONFIG.TIMEOUT_PROFILES.navigation,
+          answer: answerTimeout,
+        }, {
+          threadUrl,
+          signal: operation.signal,
+          progress: operation.progress,
+          modes,
+        })
+      )
+    );
+  }
+
+  /**
+   * Serve an answer from the response cache, or compute and store it,
+   * according to the call's `cache` argument
+   * @param tool Tool name, also selecting the TTL from CONFIG.CACHE_TTL
+   * @param parameters Validated tool arguments
+   * @param compute Produces a fresh answer on a miss
+   * @param verbatimFields Arguments keyed with their exact text, see normalizeArguments
+   */
+  private async withCache(
+    tool: string,
+    parameters: { cache?: CacheMode },
+    compute: () => Promise<StructuredAnswer>,
+    verbatimFields: readonly string[] = []
+  ): Promise<StructuredAnswer> {
+    const mode = parameters.cache ?? 'use';
+    const key = normalizeArguments(parameters, verbatimFields);
     
-    // This is a placeholder for actual implementation
-    return `Search results for "${query}" with focus "${focus}"`;
+    if (mode === 'use') {
+      const entry = this.cache.get(tool, key);
+      if (entry) {
+        logInfo(`Cache hit for ${tool} (age ${entry.ageSeconds}s)`);
+        return { ...entry.answer, metadata: { ...entry.answer.metadata, cached: true, cache_age_seconds: entry.ageSeconds } };
+      }
+    }
+    
+    const answer = await compute();
+    if (mode !== 'bypass') {
+      this.cache.set(tool, key, answer, CONFIG.CACHE_TTL[tool]);
+    }
+    return { ...answer, metadata: { ...answer.metadata, cached: false } };
+  }
+
+  /**
+   * Handle search requests
+   */
+  private async handleSearch(parameters: SearchParams, operation: Operation): Promise<StructuredAnswer> {
+    const { query, focus, source_focus, pro, model, format } = parameters;
+    const modes: QueryModes = { sourceFocus: source_focus, pro, model };
+    
+    logInfo(`Search #${operation.id} query: ${query}, focus: ${focus}`, { source_focus, pro, model });
+    
+    const answer = await this.withCache('search', parameters, async () =>
+      buildStructuredAnswer(await this.queryPerplexity(
+        operation, buildSearchPrompt(query, focus), CONFIG.TIMEOUT_PROFILES.search, undefined, modes
+      ))
+    );
+    
+    // Echo the modes the answer was produced with
+    const echoed = Object.fromEntries(
+      Object.entries({ source_focus, pro, model }).filter(([, value]) => value !== undefined)
+    ) as Record<string, string | boolean>;
+    return formatAnswer({ ...answer, metadata: { ...answer.metadata, ...echoed } }, format);
   }
 
   /**
    * Handle documentation requests
    */
-  private async handleGetDocumentation(parameters: any, opId: number): Promise<string> {
-    const { technology, context } = parameters;
+  private async handleGetDocumentation(parameters: GetDocumentationParams, operation: Operation): Promise<DocumentationAnswer> {
+    const { technology, context, project_path, version, format, cache } = parameters;
     
-    if (!technology) {
-      throw new McpError(
-        ErrorCode.InvalidArgument,
-        'Technology is required'
-      );
+    logInfo(`Documentation #${operation.id} for: ${technology}${context ? `, context: ${context}` : ''}`);
+    
+    let resolved: ResolvedVersion | null = null;
+    if (project_path) {
+      if (!existsSync(project_path) || !statSync(project_path).isDirectory()) {
+        throw new InvalidInputError(`project_path is not a directory: ${project_path}`);
+      }
+      resolved = resolveProjectVersion(project_path, technology);
+      logInfo(resolved
+        ? `Documentation #${operation.id}: ${resolved.package} ${resolved.version} from ${resolved.source}`
+        : `Documentation #${operation.id}: no version of ${technology} found in ${project_path}`);
     }
+    const pinned = version ?? resolved?.version;
     
-    logInfo(`Documentation #${opId} for: ${technology}${context ? `, context: ${context}` : ''}`);
-    // Implementation would go here
+    // Keyed on the version rather than the path, so projects on the same version share answers
+    const cacheParameters = { technology, context, version: pinned, cache };
+    const answer = await this.withCache('get_documentation', cacheParameters, async () =>
+      buildStructuredAnswer(await this.queryPerplexity(
+        operation, buildDocumentationPrompt(technology, context, pinned), CONFIG.TIMEOUT_PROFILES.search
+      ))
+    );
     
-    // This is a placeholder for actual implementation
-    return `Documentation for "${technology}"${context ? ` with context "${context}"` : ''}`;
+    const metadata: Record<string, string | number | boolean> = { ...answer.metadata };
+    if (pinned) metadata.version = pinned;
+    if (resolved && !version) metadata.version_source = resolved.source;
+    if (project_path && !resolved) metadata.version_note = `No version of ${technology} found in ${project_path}`;
+    // Sections and code examples are read from the Markdown before the body is converted
+    return formatAnswer(buildDocumentationAnswer({ ...answer, metadata }, technology, version ? null : resolved), format);
   }
 
   /**
    * Handle API finding requests
    */
-  private async handleFindAPIs(parameters: any, opId: number): Promise<string> {
-    const { requirements, context } = parameters;
+  private async handleFindAPIs(parameters: FindApisParams, operation: Operation): Promise<StructuredAnswer | ApiComparisonAnswer> {
+    const { requirements, context, free, language, self_hostable, format } = parameters;
+    const filters = { free, language, self_hostable };
     
-    if (!requirements) {
-      throw new McpError(
-        ErrorCode.InvalidArgument,
-        'Requirements are needed to find APIs'
-      );
-    }
+    logInfo(`Find APIs #${operation.id}: ${requirements}${context ? `, context: ${context}` : ''}`, filters);
     
-    logInfo(`Find APIs #${opId}: ${requirements}${context ? `, context: ${context}` : ''}`);
-    // Implementation would go here
+    const answer = await this.withCache('find_apis', parameters, async () =>
+      buildStructuredAnswer(await this.queryPerplexity(operation, buildFindApisPrompt(requirements, context, filters), CONFIG.TIMEOUT_PROFILES.search))
+    );
     
-    // This is a placeholder for actual implementation
-    return `APIs matching "${requirements}"${context ? ` with context "${context}"` : ''}`;
+    const comparison = buildApiComparison(answer, filters);
+    if (!comparison) {
+      logWarn(`Find APIs #${operation.id}: could not read candidates from the answer`);
+      return formatAnswer({ ...answer, metadata: { ...answer.metadata, structured: false } }, format);
+    }
+    logInfo(`Find APIs #${operation.id}: ${comparison.candidates.length} candidates, ${comparison.excluded.length} excluded by filters`);
+    return formatAnswer(comparison, format);
   }
 
   /**
    * Handle code deprecation check requests
    */
-  private async handleCheckDeprecatedCode(parameters: any, opId: number): Promise<string> {
-    const { code, context } = parameters;
+  private async handleCheckDeprecatedCode(parameters: CheckDeprecatedCodeParams, operation: Operation): Promise<CallToolResult> {
+    const { code, context, format = 'markdown', cache } = parameters;
     
-    if (!code || !context) {
-      throw new McpError(
-        ErrorCode.InvalidArgument,
-        'Both code and context are required'
+    logInfo(`Check deprecated code #${operation.id} for context: ${context}`);
+    const analysis = analyzeCode(code);
+    const chunks = chunkApis(analysis.apis);
+    logDebug(`Code length: ${code.length} characters, ${analysis.apis.length} APIs found by the ${analysis.parser} parser, ${chunks.length} chunks`);
+    
+    const findings: DeprecationFinding[] = [];
+    const unparsed: string[] = [];
+    for (const chunk of chunks) {
+      const apis = formatApiList(chunk);
+      // Cached per chunk, so the same APIs in another snippet are not asked again.
+      // Identifiers are case-sensitive (`Buffer` is not `buffer`), so the list is keyed verbatim
+      const chunkParameters = { context, apis, cache };
+      const answer = await this.withCache('check_deprecated_code', chunkParameters, async () =>
+        buildStructuredAnswer(await this.queryPerplexity(operation, buildDeprecationPrompt(context, apis), CONFIG.TIMEOUT_PROFILES.search)),
+        ['apis']
       );
+      const chunkFindings = findingsFromAnswer(answer, chunk);
+      if (chunkFindings) {
+        findings.push(...chunkFindings);
+      } else {
+        logWarn(`Check deprecated code #${operation.id}: could not read findings from the answer`);
+        unparsed.push(answer.answer);
+      }
     }
+    findings.sort((a, b) => (a.line ?? Infinity) - (b.line ?? Infinity) || a.symbol.localeCompare(b.symbol));
     
-    logInfo(`Check deprecated code #${opId} for context: ${context}`);
-    logDebug(`Code length: ${code.length} characters`);
-    // Implementation would go here
+    const lines = findings.map((finding) => [
+      `- ${finding.line === null ? 'Not located' : `Line ${finding.line}`}: \`${finding.symbol}\``,
+      finding.why ? ` — ${finding.why}` : '',
+      finding.replacement ? ` Use instead: ${finding.replacement}.` : '',
+      finding.source ? ` (${finding.source})` : '',
+    ].join(''));
+    const summary = analysis.apis.length === 0
+      ? 'No imports or API calls found in the code.'
+      : findings.length === 0 && unparsed.length === 0
+        ? `No deprecated APIs found among ${analysis.apis.length} APIs checked against ${context}.`
+        : `## Deprecated APIs (${context})\n\n${lines.join('\n') || 'None could be read from the answer.'}`;
+    const content: CallToolResult['content'] = [{ type: 'text', text: convertMarkdown(summary, format) }];
+    if (unparsed.length > 0) {
+      content.push({ type: 'text', text: convertMarkdown(`Unstructured answer:\n\n${unparsed.join('\n\n')}`, format) });
+    }
     
-    // This is a placeholder for actual implementation
-    return `Deprecation analysis for code in context "${context}"`;
+    return {
+      content,
+      structuredContent: {
+        context,
+        parser: analysis.parser,
+        modules: analysis.modules,
+        apis_checked: analysis.apis.length,
+        chunks: chunks.length,
+        findings,
+        ...(unparsed.length > 0 ? { unparsed_answers: unparsed.map((answer) => convertMarkdown(answer, format)) } : {}),
+        format,
+      },
+    };
   }
 
   /**
-   * Handle chat requests
+   * Handle deep research requests: plan sub-queries, answer them in
+   * parallel, plan follow-ups for each further level of depth, then write
+   * the findings up as one report with a merged bibliography
+   */
+  private async handleDeepResearch(parameters: DeepResearchParams, operation: Operation): Promise<CallToolResult> {
+    const { question, max_sub_queries, depth, time_budget_seconds, include_sub_answers, format = 'markdown', cache } = parameters;
+    const deadline = operation.startedAt + time_budget_seconds * 1000;
+    const searchDeadline = operation.startedAt + time_budget_seconds * 1000 * RESEARCH_SEARCH_SHARE;
+    
+    logInfo(`Deep research #${operation.id}: ${question}`, { max_sub_queries, depth, time_budget_seconds });
+    
+    const results: Array<SubQueryResult & { structured?: StructuredAnswer; cause?: unknown }> = [];
+    let levels = 0;
+    for (let level = 1; level <= depth && Date.now() < searchDeadline; level++) {
+      const queries = await this.planResearch(operation, question, max_sub_queries, results.map((result) => result.query), searchDeadline);
+      if (queries.length === 0) break;
+      levels = level;
+      
+      operation.progress.step(`Level ${level}: searching ${queries.length} sub-queries`);
+      let done = 0;
+      results.push(...await mapWithConcurrency(queries, CONFIG.PAGE_POOL_SIZE, async (query) => {
+        const result = await this.runSubQuery(operation, query, level, searchDeadline, cache);
+        operation.progress.step(`Sub-query ${++done}/${queries.length} ${result.status.replace('_', ' ')}: ${query}`);
+        return result;
+      }));
+    }
+    
+    const answered = results.filter((result) => result.structured);
+    if (answered.length === 0) {
+      const failure = results.find((result) => result.cause)?.cause;
+      throw failure ?? new AnswerTimeoutError(`No sub-query was answered within ${time_budget_seconds}s`);
+    }
+    
+    const merged = mergeSources(answered.map((result) => result.structured!));
+    const findings = answered.map((result, i) => ({
+      query: result.query,
+      answer: renumberCitations(result.structured!.answer, merged.numbering[i]),
+    }));
+    
+    operation.progress.step('Writing the report');
+    const written = await this.writeResearchReport(operation, question, findings, merged.bibliography.length, deadline);
+    const body = written ?? assembleReport(question, findings);
+    const text = merged.bibliography.length > 0
+      ? `${body}\n\n${formatBibliography(merged.bibliography, answered.length)}`
+      : body;
+    
+    const subQueries: SubQueryResult[] = results.map(({ structured, cause, ...result }) => {
+      const index = answered.findIndex((candidate) => candidate.structured === structured);
+      return include_sub_answers && structured ? { ...result, answer: findings[index].answer } : result;
+    });
+    const metadata = {
+      sub_queries: results.length,
+      answered: answered.length,
+      failed: results.filter((result) => result.status === 'failed').length,
+      timed_out: results.filter((result) => result.status === 'timed_out').length,
+      levels,
+      report: written ? 'written' : 'assembled',
+      elapsed_seconds: Math.round((Date.now() - operation.startedAt) / 1000),
+    };
+    logInfo(`Deep research #${operation.id} finished`, metadata);
+    
+    // Citations are read from the Markdown; the [n] markers survive every format
+    const report: ResearchReport = formatAnswer({
+      answer: text,
+      sources: merged.bibliography,
+      citations: citationsOf(text, merged.bibliography.length),
+      sub_queries: subQueries.map((result) =>
+        result.answer === undefined ? result : { ...result, answer: convertMarkdown(result.answer, format) }
+      ),
+      metadata,
+    }, format);
+    const content: CallToolResult['content'] = [
+      { type: 'text', text: report.answer },
+      { type: 'text', text: Object.entries(metadata).map(([key, value]) => `${key}: ${value}`).join('\n') },
+    ];
+    if (include_sub_answers) {
+      content.push({
+        type: 'text',
+        text: convertMarkdown(findings.map((finding) => `## Sub-answer: ${finding.query}\n\n${finding.answer}`).join('\n\n'), format),
+      });
+    }
+    return { content, structuredContent: { ...report } };
+  }
+
+  /**
+   * Copy of an operation that is also cancelled at a deadline and reports no
+   * progress of its own, for the queries a multi-query tool runs
+   */
+  private boundedOperation(operation: Operation, deadline: number): Operation {
+    return {
+      ...operation,
+      signal: AbortSignal.any([operation.signal, AbortSignal.timeout(Math.max(deadline - Date.now(), 0))]),
+      progress: new ProgressReporter(undefined, async () => undefined),
+    };
+  }
+
+  /**
+   * Ask Perplexity how to split a research question into searches
+   * @param previous Queries already run; when given, follow-ups are requested
+   * @returns The queries; the question itself when the first plan is unreadable
+   */
+  private async planResearch(
+    operation: Operation,
+    question: string,
+    count: number,
+    previous: string[],
+    deadline: number
+  ): Promise<string[]> {
+    const fallback = previous.length === 0 ? [question] : [];
+    try {
+      const answer = buildStructuredAnswer(await this.queryPerplexity(
+        this.boundedOperation(operation, deadline),
+        buildResearchPlanPrompt(question, count, previous),
+        CONFIG.TIMEOUT_PROFILES.search
+      ));
+      const queries = parseResearchPlan(answer, count, [question, ...previous]);
+      if (queries) return queries.length > 0 || previous.length > 0 ? queries : fallback;
+      logWarn(`Deep research #${operation.id}: could not read the research plan`);
+    } catch (error) {
+      if (operation.signal.aborted) throw new OperationCancelledError();
+      logWarn(`Deep research #${operation.id}: planning failed`, error);
+    }
+    return fallback;
+  }
+
+  /**
+   * Answer one sub-query through the search path, sharing its cache
+   */
+  private async runSubQuery(
+    operation: Operation,
+    query: string,
+    level: number,
+    deadline: number,
+    cache?: CacheMode
+  ): Promise<SubQueryResult & { structured?: StructuredAnswer; cause?: unknown }> {
+    const bounded = this.boundedOperation(operation, deadline);
+    const searchParameters: SearchParams = { query, focus: 'detailed', cache };
+    try {
+      const structured = await this.withCache('search', searchParameters, async () =>
+        buildStructuredAnswer(await this.queryPerplexity(bounded, buildSearchPrompt(query, 'detailed'), CONFIG.TIMEOUT_PROFILES.search))
+      );
+      return { query, level, status: 'answered', structured };
+    } catch (error) {
+      if (operation.signal.aborted) throw new OperationCancelledError();
+      if (bounded.signal.aborted) return { query, level, status: 'timed_out' };
+      logWarn(`Deep research #${operation.id}: sub-query failed: ${query}`, error);
+      return { query, level, status: 'failed', error: error instanceof Error ? error.message : String(error), cause: error };
+    }
+  }
+
+  /**
+   * Have Perplexity write the report from the findings alone, with web
+   * search turned off so the only citations are the bibliography's
+   * @returns The report, or null when it could not be written in time or
+   *          without citations of its own
    */
-  private async handleChat(parameters: any, opId: number): Promise<string> {
-    const { message, chat_id } = parameters;
+  private async writeResearchReport(
+    operation: Operation,
+    question: string,
+    findings: Array<{ query: string; answer: string }>,
+    bibliographySize: number,
+    deadline: number
+  ): Promise<string | null> {
+    const remaining = deadline - Date.now();
+    if (remaining <= 0) return null;
     
-    if (!message) {
-      throw new McpError(
-        ErrorCode.InvalidArgument,
-        'Message is required for chat'
+    try {
+      const raw = await this.queryPerplexity(
+        this.boundedOperation(operation, deadline),
+        buildResearchReportPrompt(question, formatFindings(findings)),
+        Math.min(CONFIG.TIMEOUT_PROFILES.search, remaining),
+        undefined,
+        { sourceFocus: 'writing' }
       );
+      if (raw.sources.length > 0) {
+        // Its markers would point at its own sources, not the bibliography
+        logWarn(`Deep research #${operation.id}: the report searched the web, assembling it from the sub-answers`);
+        return null;
+      }
+      const checked = checkReportCitations(raw.text, bibliographySize);
+      if (!checked.cited && bibliographySize > 0) {
+        logWarn(`Deep research #${operation.id}: the report kept no citations, assembling it from the sub-answers`);
+        return null;
+      }
+      return checked.text;
+    } catch (error) {
+      if (operation.signal.aborted) throw new OperationCancelledError();
+      logWarn(`Deep research #${operation.id}: writing the report failed, assembling it from the sub-answers`, error);
+      return null;
     }
+  }
+
+  /**
+   * Handle chat requests
+   */
+  private async handleChat(parameters: ChatParams, operation: Operation): Promise<StructuredAnswer> {
+    const { message, chat_id, format } = parameters;
+    
+    logInfo(`Chat #${operation.id}${chat_id ? ` (ID: ${chat_id})` : ' (new chat)'}: ${message.substring(0, 50)}${message.length > 50 ? '...' : ''}`);
     
-    logInfo(`Chat #${opId}${chat_id ? ` (ID: ${chat_id})` : ' (new chat)'}: ${message.substring(0, 50)}${message.length > 50 ? '...' : ''}`);
-    // Implementation would go here
+    const history = chat_id ? this.requireChat(chat_id) : undefined;
     
-    // Generate a new chat ID if none was provided
     const chatId = chat_id || crypto.randomUUID();
+    const previous = history?.messages ?? [];
+    const threadUrl = [...previous].reverse().find((m) => m.role === 'assistant' && m.url)?.url;
+    const userTurn: ChatMessage = { role: 'user', content: message, timestamp: Date.now() };
+    
+    let raw: RawAnswer | undefined;
+    if (threadUrl) {
+      // The original thread already carries the context, so only the new message is sent
+      try {
+        raw = await this.queryPerplexity(operation, message, CONFIG.TIMEOUT_PROFILES.chat, threadUrl);
+      } catch (error) {
+        if (error instanceof OperationCancelledError) throw error;
+        logWarn(`Chat #${operation.id}: could not continue thread ${threadUrl}, replaying context instead`, error);
+      }
+    }
+    if (!raw) {
+      raw = await this.queryPerplexity(operation, buildChatPrompt(previous, message), CONFIG.TIMEOUT_PROFILES.chat);
+    }
     
-    // This is a placeholder for actual implementation
-    const response = {
-      chat_id: chatId,
-      response: `Response to: "${message.substring(0, 30)}${message.length > 30 ? '...' : ''}"`,
+    const answer = buildStructuredAnswer(raw);
+    const created = !history;
+    this.chats.append(chatId, [
+      userTurn,
+      {
+        role: 'assistant',
+        content: answer.answer,
+        timestamp: Date.now(),
+        sources: answer.sources,
+        url: raw.url,
+      },
+    ]);
+    this.notifyChatsChanged([chatId], created);
+    
+    return formatAnswer({ ...answer, metadata: { ...answer.metadata, chat_id: chatId } }, format);
+  }
+
+  /**
+   * Load a chat or fail with InvalidParams
+   */
+  private requireChat(chatId: string): Chat {
+    const chat = this.chats.get(chatId);
+    if (!chat) {
+      throw new InvalidInputError(
+        `Unknown chat_id: ${chatId}`
+      );
+    }
+    return chat;
+  }
+
+  /**
+   * One page of `resources/list`: stored chats, most recently updated first
+   * @param cursor Offset returned as `nextCursor` by the previous page
+   */
+  private listChatResources(cursor?: string): ListResourcesResult {
+    const offset = cursor && /^\d+$/.test(cursor) ? Number(cursor) : 0;
+    const { chats, total } = this.chats.list(CHAT_RESOURCE_PAGE_SIZE, offset);
+    const next = offset + chats.length;
+    return {
+      resources: chats.map(chatResource),
+      ...(next < total ? { nextCursor: String(next) } : {}),
+    };
+  }
+
+  /**
+   * Serve `resources/read` for a `chat://{id}` URI as the Markdown transcript
+   */
+  private readChatResource(uri: string): ReadResourceResult {
+    const chatId = chatIdFromUri(uri);
+    if (!chatId) {
+      throw new InvalidInputError(`Unknown resource: ${uri}`, { uri });
+    }
+    const chat = this.requireChat(chatId);
+    return { contents: [{ uri, mimeType: 'text/markdown', text: formatChatMarkdown(chat) }] };
+  }
+
+  /**
+   * Notify clients that chats changed: subscribers of a chat's resource get
+   * `resources/updated`, and every client `resources/list_changed` when
+   * chats were added or removed
+   * @param chatIds Changed chats, or null for all of them
+   * @param listChanged Whether the set of chats changed
+   */
+  private notifyChatsChanged(chatIds: string[] | null, listChanged: boolean): void {
+    // Compared by chat ID, so a subscription to an unencoded URI matches too
+    const uris = [...this.resourceSubscriptions].filter((uri) => {
+      const chatId = chatIdFromUri(uri);
+      return chatId !== null && (chatIds === null || chatIds.includes(chatId));
+    });
+    for (const uri of uris) {
+      this.mcpServer.sendResourceUpdated({ uri }).catch((error) => logWarn(`Could not notify update of ${uri}`, error));
+    }
+    if (listChanged) {
+      this.mcpServer.sendResourceListChanged().catch((error) => logWarn('Could not notify resource list change', error));
+    }
+  }
+
+  /**
+   * Handle chat listing requests
+   */
+  private handleListChats(parameters: ListChatsParams): CallToolResult {
+    const { limit, offset } = parameters;
+    const { chats, total } = this.chats.list(limit, offset);
+    
+    const lines = chats.map((chat) =>
+      `- ${chat.title} (${chat.chat_id}, ${chat.message_count} messages, updated ${new Date(chat.updated_at).toISOString()})`
+    );
+    const text = chats.length > 0
+      ? `Chats ${offset + 1}-${offset + chats.length} of ${total}:\n${lines.join('\n')}`
+      : `No chats found (total: ${total})`;
+    
+    return {
+      content: [{ type: 'text', text }],
+      structuredContent: { chats, total, limit, offset },
+    };
+  }
+
+  /**
+   * Handle transcript requests
+   */
+  private handleGetChat(parameters: GetChatParams): CallToolResult {
+    const chat = this.requireChat(parameters.chat_id);
+    return {
+      content: [{ type: 'text', text: formatChatMarkdown(chat) }],
+      structuredContent: { chat },
+    };
+  }
+
+  /**
+   * Handle chat search requests
+   */
+  private handleSearchChats(parameters: SearchChatsParams): CallToolResult {
+    const { query, limit } = parameters;
+    const hits = this.chats.search(query, limit);
+    
+    const lines = hits.map((hit) => `- ${hit.title} (${hit.chat_id}, message ${hit.message_index}, ${hit.role}): ${hit.snippet}`);
+    const text = hits.length > 0
+      ? `${hits.length} matching messages:\n${lines.join('\n')}`
+      : `No messages match "${query}"`;
+    
+    return {
+      content: [{ type: 'text', text }],
+      structuredContent: { hits },
+    };
+  }
+
+  /**
+   * Handle chat export requests
+   */
+  private handleExportChat(parameters: ExportChatParams): CallToolResult {
+    const chat = this.requireChat(parameters.chat_id);
+    const text = parameters.format === 'json' ? formatChatJson(chat) : formatChatMarkdown(chat);
+    return {
+      content: [{ type: 'text', text }],
+    };
+  }
+
+  /**
+   * Handle chat deletion requests
+   */
+  private handleDeleteChat(parameters: DeleteChatParams, opId: number): CallToolResult {
+    const { chat_id, all } = parameters;
+    
+    if (Boolean(chat_id) === Boolean(all)) {
+      throw new InvalidInputError(
+        'Provide either chat_id or all: true',
+        { errors: [{ field: 'chat_id', message: 'exactly one of chat_id or all must be given' }] }
+      );
+    }
+    
+    let deleted: number;
+    if (all) {
+      deleted = this.chats.deleteAll();
+      this.notifyChatsChanged(null, deleted > 0);
+    } else {
+      this.requireChat(chat_id!);
+      deleted = this.chats.delete(chat_id!) ? 1 : 0;
+      this.notifyChatsChanged([chat_id!], deleted > 0);
+    }
+    
+    logInfo(`Delete chats #${opId}: ${deleted} removed`);
+    return {
+      content: [{ type: 'text', text: `Deleted ${deleted} chat${deleted === 1 ? '' : 's'}` }],
+      structuredContent: { deleted },
+    };
+  }
+
+  /**
+   * Handle chat import requests
+   */
+  private handleImportChat(parameters: ImportChatParams, opId: number): CallToolResult {
+    let chat: Chat;
+    try {
+      chat = parseChatExport(parameters.data);
+    } catch (error) {
+      throw new InvalidInputError(
+        `Invalid chat export: ${error instanceof Error ? error.message : String(error)}`
+      );
+    }
+    
+    if (!parameters.overwrite && this.chats.get(chat.id)) {
+      throw new InvalidInputError(
+        `Chat ${chat.id} already exists; pass overwrite: true to replace it`
+      );
+    }
+    
+    const replaced = this.chats.save(chat, parameters.overwrite);
+    this.notifyChatsChanged([chat.id], !replaced);
+    logInfo(`Import chat #${opId}: ${chat.id} (${chat.messages.length} messages)`);
+    
+    return {
+      content: [{ type: 'text', text: `${replaced ? 'Replaced' : 'Imported'} chat ${chat.id} with ${chat.messages.length} messages` }],
+      structuredContent: { chat_id: chat.id, message_count: chat.messages.length, replaced },
+    };
+  }
+
+  /**
+   * Handle cache inspection and purge requests
+   */
+  private handleManageCache(parameters: ManageCacheParams, opId: number): CallToolResult {
+    const { action, tool, expired_only } = parameters;
+    
+    if (action === 'purge') {
+      const deleted = this.cache.purge({ tool, expiredOnly: expired_only });
+      logInfo(`Cache purge #${opId}: ${deleted} entries removed`);
+      return {
+        content: [{ type: 'text', text: `Purged ${deleted} cache entr${deleted === 1 ? 'y' : 'ies'}` }],
+        structuredContent: { deleted },
+      };
+    }
+    
+    const tools = this.cache.stats();
+    const lines = tools.map((stats) =>
+      `- ${stats.tool}: ${stats.entries} entries (${stats.expired} expired), ${stats.hits} hits, ${stats.bytes} bytes`
+    );
+    return {
+      content: [{ type: 'text', text: tools.length > 0 ? `Response cache:\n${lines.join('\n')}` : 'Response cache is empty' }],
+      structuredContent: { tools, ttl_ms: CONFIG.CACHE_TTL },
+    };
+  }
+  /**
+   * Handle login status, cookie import and cookie export requests
+   */
+  private async handleManageCookies(parameters: ManageCookiesParams, opId: number): Promise<CallToolResult> {
+    const { action, data, path, format, domain } = parameters;
+    if (!this.browser) {
+      throw new Error('Browser is not initialized');
+    }
+    
+    if (action === 'import') {
+      if ((data === undefined) === (path === undefined)) {
+        throw new InvalidInputError('Pass exactly one of data or path to import cookies');
+      }
+      
+      let cookies;
+      try {
+        cookies = parseCookieFile(data ?? readFileSync(path!, 'utf8'), format);
+      } catch (error) {
+        throw new InvalidInputError(
+          `Invalid cookie file: ${error instanceof Error ? error.message : String(error)}`
+        );
+      }
+      await this.browser.setCookie(...cookies);
+      // Proxy contexts copied the default context's cookies when they were created
+      for (const context of this.proxyContexts.values()) {
+        await context.setCookie(...cookies);
+      }
+      logInfo(`Cookie import #${opId}: ${cookies.length} cookies`);
+      
+      const session = await this.sessionState();
+      this.logSessionState(session);
+      return {
+        content: [{ type: 'text', text: `Imported ${cookies.length} cookies; ${session.logged_in ? 'logged in' : 'not logged in'} to Perplexity` }],
+        structuredContent: { imported: cookies.length, ...session },
+      };
+    }
+    
+    if (action === 'export') {
+      if (data !== undefined) {
+        throw new InvalidInputError('data is only accepted when importing cookies');
+      }
+      
+      const cookies = (await this.browser.cookies()).filter((cookie) => matchesDomain(cookie, domain));
+      const file = formatCookieFile(cookies, format ?? 'json');
+      logInfo(`Cookie export #${opId}: ${cookies.length} cookies for ${domain}`);
+      
+      if (path) {
+        writeFileSync(path, file, { mode: 0o600 });
+        return {
+          content: [{ type: 'text', text: `Wrote ${cookies.length} cookies for ${domain} to ${path}` }],
+          structuredContent: { exported: cookies.length, path },
+        };
+      }
+      return {
+        content: [{ type: 'text', text: file }],
+        structuredContent: { exported: cookies.length, format: format ?? 'json' },
+      };
+    }
+    
+    const session = await this.sessionState();
+    return {
+      content: [{
+        type: 'text',
+        text: session.logged_in
+          ? `Logged in to Perplexity${session.expires_at ? ` until ${new Date(session.expires_at).toISOString()}` : ''}`
+          : 'Not logged in to Perplexity',
+      }],
+      structuredContent: { ...session, user_data_dir: CONFIG.USER_DATA_DIR ?? null },
     };
+  }
+
+  /**
+   * Handle requests to read a web page as Markdown
+   */
+  private async handleFetchUrlContent(parameters: FetchUrlContentParams, operation: Operation): Promise<CallToolResult> {
+    const { url, max_length } = parameters;
+    let parsed: URL;
+    try {
+      parsed = new URL(url);
+    } catch {
+      throw new InvalidInputError(`Invalid URL: ${url}`);
+    }
+    if (parsed.protocol !== 'http:' && parsed.protocol !== 'https:') {
+      throw new InvalidInputError(`Only http and https URLs can be fetched, got ${parsed.protocol}`);
+    }
+    
+    logInfo(`Fetch URL #${operation.id}: ${parsed.href}`);
     
-    return JSON.stringify(response);
+    // Third-party pages say nothing about Perplexity's health, so this bypasses the
+    // circuit breaker and challenge handling; only browser failures are retried
+    const content = await retryWithBackoff(() =>
+      this.withPage(operation, (page) =>
+        fetchPageContent(page, parsed.href, {
+          timeout: CONFIG.TIMEOUT_PROFILES.navigation,
+          maxLength: max_length,
+          signal: operation.signal,
+          progress: operation.progress,
+        })
+      ), this.retryPolicy(operation), {
+      startedAt: operation.startedAt,
+      shouldRetry: isRetryable,
+      signal: operation.signal,
+      label: `Operation #${operation.id}`,
+    });
+    logInfo(`Fetch URL #${operation.id}: HTTP ${content.status ?? 'n/a'}, ${content.word_count} words${content.truncated ? ', truncated' : ''}`);
+    
+    const sections = [`# ${content.title || content.url}`, `Source: ${content.canonical_url}`];
+    if (content.github) {
+      const files = content.github.files.map((file) => `- ${file.type === 'dir' ? `${file.name}/` : file.name}`);
+      sections.push(`## Files\n\n${files.length > 0 ? files.join('\n') : '(no file listing found)'}`);
+      sections.push(content.github.has_readme ? `## README\n\n${content.markdown}` : 'This repository has no README.');
+    } else {
+      sections.push(content.markdown || '(no readable content found)');
+    }
+    if (content.truncated) {
+      sections.push(`[Truncated: returned ${content.markdown.length} of ${content.total_length} characters]`);
+    }
+    
+    return {
+      content: [{ type: 'text', text: sections.join('\n\n') }],
+      structuredContent: { ...content, returned_length: content.markdown.length },
+    };
   }
 
+
   /**
    * Unified logging method that directs to the appropriate log function
    */
@@ -838,7 +1942,13 @@ class PerplexityMCPServer {
 }
 
 // Run the server
-const server = new PerplexityMCPServer();
+let server: PerplexityMCPServer;
+try {
+  server = new PerplexityMCPServer();
+} catch (error) {
+  logError('Fatal error initializing server', error);
+  process.exit(1);
+}
 server.start().catch((error) => {
   logError('Fatal error starting server', error);
   process.exit(1);
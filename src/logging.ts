@@ -0,0 +1,183 @@
+// ─── LOGGING FUNCTIONS ─────────────────────────────────────────────────
+/**
+ * Log levels used by the application
+ */
+export type LogLevel = 'debug' | 'info' | 'warn' | 'error';
+
+/**
+ * Order of the levels; messages below the configured level are dropped
+ */
+const LEVEL_ORDER: Record<LogLevel, number> = { debug: 0, info: 1, warn: 2, error: 3 };
+
+/**
+ * Lowest level that is written; DEBUG enables debug output until the
+ * configuration is loaded
+ */
+let minimumLevel: LogLevel = process.env.DEBUG ? 'debug' : 'info';
+
+/**
+ * Set the lowest level that is written
+ */
+export function setLogLevel(level: LogLevel): void {
+  minimumLevel = level;
+}
+
+/**
+ * Tool arguments never written to the log: imported cookie files and chat
+ * exports carry session tokens, and a path may point at such a file
+ */
+const REDACTED_ARGUMENTS = new Set(['data', 'path']);
+
+/**
+ * Performance tracking metrics
+ */
+const performanceMarkers: Record<string, number> = {};
+
+/**
+ * Format a timestamp for logging
+ * @returns Formatted timestamp [YYYY-MM-DD HH:MM:SS.mmm]
+ */
+function getTimestamp(): string {
+  const now = new Date();
+  return `[${now.toISOString().replace('T', ' ').replace('Z', '').substring(0, 23)}]`;
+}
+
+/**
+ * Safe logging function to handle all types of inputs and prevent JSON parsing errors
+ * @param level Log level (debug, info, warn, error)
+ * @param message Primary message or object to log
+ * @param data Optional additional data to include in the log
+ */
+function logMessage(level: LogLevel, message: unknown, data?: unknown): void {
+  if (LEVEL_ORDER[level] < LEVEL_ORDER[minimumLevel]) return;
+  
+  let logPrefix = '';
+  
+  switch(level) {
+    case 'debug': logPrefix = '[DEBUG]'; break;
+    case 'info': logPrefix = '[INFO] '; break;
+    case 'warn': logPrefix = '[WARN] '; break;
+    case 'error': logPrefix = '[ERROR]'; break;
+  }
+  
+  let formattedMessage = `${getTimestamp()} ${logPrefix} `;
+  
+  // Format the primary message
+  if (message instanceof Error) {
+    formattedMessage += `${message.name}: ${message.message}`;
+    if (message.stack) {
+      formattedMessage += `\n${message.stack}`;
+    }
+  } else if (typeof message === 'object' && message !== null) {
+    try {
+      formattedMessage += JSON.stringify(message);
+    } catch (e) {
+      formattedMessage += `[Unstringifiable Object: ${Object.prototype.toString.call(message)}]`;
+    }
+  } else {
+    formattedMessage += String(message);
+  }
+  
+  // Add additional data if provided
+  if (data !== undefined) {
+    formattedMessage += ' ';
+    if (data instanceof Error) {
+      formattedMessage += `${data.name}: ${data.message}`;
+      if (data.stack) {
+        formattedMessage += `\n${data.stack}`;
+      }
+    } else if (typeof data === 'object' && data !== null) {
+      try {
+        formattedMessage += JSON.stringify(data);
+      } catch (e) {
+        formattedMessage += `[Unstringifiable Object: ${Object.prototype.toString.call(data)}]`;
+      }
+    } else {
+      formattedMessage += String(data);
+    }
+  }
+  
+  // Use console.error to prevent JSON communication issues
+  console.error(formattedMessage);
+}
+
+/**
+ * Log debug information - only shows when the log level is debug
+ * @param message Primary message or object to log
+ * @param data Optional additional data to include in the log
+ */
+export function logDebug(message: unknown, data?: unknown): void {
+  logMessage('debug', message, data);
+}
+
+/**
+ * Log info level messages
+ * @param message Primary message or object to log
+ * @param data Optional additional data to include in the log
+ */
+export function logInfo(message: unknown, data?: unknown): void {
+  logMessage('info', message, data);
+}
+
+/**
+ * Log warning messages
+ * @param message Primary message or object to log
+ * @param data Optional additional data to include in the log
+ */
+export function logWarn(message: unknown, data?: unknown): void {
+  logMessage('warn', message, data);
+}
+
+/**
+ * Log error messages
+ * @param message Primary message or object to log
+ * @param data Optional additional data to include in the log
+ */
+export function logError(message: unknown, data?: unknown): void {
+  logMessage('error', message, data);
+}
+
+/**
+ * Copy of tool arguments that is safe to log, with REDACTED_ARGUMENTS
+ * replaced by their length
+ * @param args Raw arguments of a tool call
+ */
+export function redactArguments(args: Record<string, unknown> | undefined): Record<string, unknown> | undefined {
+  if (!args) return args;
+  return Object.fromEntries(Object.entries(args).map(([key, value]) => [
+    key,
+    REDACTED_ARGUMENTS.has(key) && value !== undefined
+      ? `[redacted${typeof value === 'string' ? `, ${value.length} characters` : ''}]`
+      : value,
+  ]));
+}
+
+/**
+ * Start a performance measurement
+ * @param markerId Unique identifier for the performance marker
+ */
+export function startPerformanceMarker(markerId: string): void {
+  performanceMarkers[markerId] = performance.now();
+  logDebug(`Performance marker started: ${markerId}`);
+}
+
+/**
+ * End a performance measurement and log the duration
+ * @param markerId Unique identifier for the performance marker
+ * @param description Description of the operation being measured
+ * @returns Duration in milliseconds
+ */
+export function endPerformanceMarker(markerId: string, description?: string): number {
+  if (!performanceMarkers[markerId]) {
+    logWarn(`Performance marker not found: ${markerId}`);
+    return 0;
+  }
+  
+  const duration = performance.now() - performanceMarkers[markerId];
+  const desc = description || markerId;
+  
+  logDebug(`${desc} completed in ${duration.toFixed(2)}ms`);
+  
+  delete performanceMarkers[markerId];
+  return duration;
+}
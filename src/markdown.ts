@@ -0,0 +1,495 @@
+import { marked } from 'marked';
+import { parse, HTMLElement, NodeType, type Node } from 'node-html-parser';
+import type { OutputFormat } from './types.js';
+
+// ─── HTML CONVERSION ───────────────────────────────────────────────────
+// Answers and pages are scraped as HTML and converted here, outside the
+// browser, into the format the caller asked for: Markdown (fenced code with
+// its language, GFM tables, nested lists, links, `$…$` math), plain text,
+// or the cleaned HTML itself. Citation superscripts become `[n]` markers in
+// every format. Bodies the server writes itself in Markdown (tables, reports,
+// findings) go through HTML too, so every format is produced the same way.
+
+/**
+ * Elements dropped from the output along with their content
+ */
+const DROPPED_TAGS = new Set([
+  'script', 'style', 'noscript', 'template', 'svg', 'canvas', 'iframe', 'object',
+  'button', 'input', 'select', 'textarea', 'form', 'head', 'title', 'meta', 'link',
+]);
+
+/**
+ * Elements rendered as blocks of their own rather than inline text
+ */
+const BLOCK_TAGS = new Set([
+  'address', 'article', 'aside', 'blockquote', 'body', 'dd', 'details', 'div', 'dl', 'dt',
+  'fieldset', 'figcaption', 'figure', 'footer', 'h1', 'h2', 'h3', 'h4', 'h5', 'h6', 'header',
+  'hr', 'html', 'li', 'main', 'nav', 'ol', 'p', 'pre', 'section', 'summary', 'table', 'ul',
+]);
+
+/**
+ * Attributes kept by cleanHtml; everything else (styling classes, event
+ * handlers, data attributes) is removed
+ */
+const KEPT_ATTRIBUTES = new Set([
+  'href', 'src', 'alt', 'title', 'start', 'colspan', 'rowspan', 'align',
+  'encoding', 'display', 'alttext', 'data-latex', 'data-tex', 'data-language',
+]);
+
+const PARSE_OPTIONS = {
+  comment: false,
+  // Unlike the parser's default, <pre> is parsed as elements so its <code> child can be found
+  blockTextElements: { script: true, noscript: true, style: true },
+};
+
+interface ConvertContext {
+  format: 'markdown' | 'text';
+  baseUrl?: string;
+}
+
+function isElement(node: Node): node is HTMLElement {
+  return node.nodeType === NodeType.ELEMENT_NODE;
+}
+
+function tagOf(element: HTMLElement): string {
+  return (element.tagName || '').toLowerCase();
+}
+
+/**
+ * Resolve a link target against the page it was found on
+ */
+function absolute(href: string, baseUrl?: string): string {
+  if (!baseUrl) return href;
+  try {
+    return new URL(href, baseUrl).href;
+  } catch {
+    return href;
+  }
+}
+
+/**
+ * LaTeX source of a rendered formula: KaTeX and MathML keep it in an
+ * `application/x-tex` annotation, MathJax in a `math/tex` script or a data
+ * attribute
+ * @returns The source and whether it is a display formula, or null when the
+ *   element is not a formula
+ */
+function latexOf(element: HTMLElement): { tex: string; display: boolean } | null {
+  const tag = tagOf(element);
+  const classes = element.getAttribute('class') || '';
+  const source = () =>
+    element.querySelector('annotation[encoding="application/x-tex"]')?.text.trim() ||
+    (tag === 'math' ? element : element.querySelector('math'))?.getAttribute('alttext')?.trim() ||
+    '';
+
+  if (/(^|\s)katex-display(\s|$)/.test(classes)) {
+    const tex = source();
+    return tex ? { tex, display: true } : null;
+  }
+  if (/(^|\s)katex(\s|$)/.test(classes) || tag === 'math') {
+    const tex = source();
+    return tex ? { tex, display: tag === 'math' && element.getAttribute('display') === 'block' } : null;
+  }
+  if (tag === 'script' && /^math\/tex/.test(element.getAttribute('type') || '')) {
+    return { tex: element.text.trim(), display: /mode=display/.test(element.getAttribute('type') || '') };
+  }
+  const data = element.getAttribute('data-latex') ?? element.getAttribute('data-tex');
+  if (data) {
+    return { tex: data.trim(), display: element.getAttribute('display') === 'true' || tag === 'div' };
+  }
+  return null;
+}
+
+/**
+ * Language of a code block, read from `language-x`/`lang-x` classes on the
+ * block, its <code> child or a highlighting wrapper, or from a
+ * `data-language` attribute
+ */
+function codeLanguage(pre: HTMLElement): string {
+  const candidates: Array<HTMLElement | null> = [pre.querySelector('code'), pre, pre.parentNode, pre.parentNode?.parentNode ?? null];
+  for (const candidate of candidates) {
+    if (!candidate || !candidate.getAttribute) continue;
+    const match = (candidate.getAttribute('class') || '').match(/(?:^|\s)(?:language|lang|highlight-source)-([\w+#.-]+)/);
+    if (match) return match[1].toLowerCase();
+    const attribute = candidate.getAttribute('data-language') || candidate.getAttribute('data-lang');
+    if (attribute) return attribute.trim().toLowerCase();
+  }
+  return '';
+}
+
+/**
+ * Run of backticks longer than any inside the code, so the code cannot close it
+ */
+function fenceFor(code: string, minimum: number): string {
+  const longest = Math.max(0, ...(code.match(/`+/g) ?? []).map((run) => run.length));
+  return '`'.repeat(Math.max(minimum, longest + 1));
+}
+
+/**
+ * Escape the characters of plain text that Markdown would read as emphasis,
+ * code, HTML or an entity. Brackets are left alone so `[n]` markers stay
+ * readable.
+ */
+function escapeMarkdown(text: string): string {
+  return text
+    .replace(/([*`<])/g, '\\$1')
+    .replace(/&(?=#?\w+;)/g, '\\&')
+    .replace(/(^|[^\w\\])_|_(?=[^\w]|$)/g, (match) => match.replace('_', '\\_'));
+}
+
+/**
+ * Placed by inline() before a heading, list or quote marker at the start of
+ * a text node. Only where the marker ends up starting a line does it need
+ * escaping, which is known once the paragraph is assembled (see resolveLineStarts).
+ */
+const LINE_START = '\u0000';
+const LINE_START_MARKER = /^(\s*)(#{1,6}(?=\s|$)|>|[-+](?=[\s-]|$)|\d+[.)](?=\s|$))/;
+
+/**
+ * Escape the markers flagged by inline() that start a line, and drop the
+ * other flags
+ */
+function resolveLineStarts(text: string): string {
+  return text
+    .split('\n')
+    .map((line) => {
+      const rest = line.trimStart();
+      if (!rest.startsWith(LINE_START)) return line;
+      const marker = rest.slice(1);
+      const escaped = /^\d/.test(marker) ? marker.replace(/^(\d+)([.)])/, '$1\\$2') : `\\${marker}`;
+      return `${line.slice(0, line.length - rest.length)}${escaped}`;
+    })
+    .join('\n')
+    .split(LINE_START)
+    .join('');
+}
+
+/**
+ * Wrap inline content in delimiters, keeping surrounding whitespace outside
+ * so `<b> x </b>` does not become the invalid `** x **`
+ */
+function wrap(content: string, open: string, close = open): string {
+  const [, leading, core, trailing] = content.match(/^(\s*)([\s\S]*?)(\s*)$/)!;
+  return core ? `${leading}${open}${core}${close}${trailing}` : content;
+}
+
+/**
+ * Escape the characters of a URL that would end a Markdown link target
+ */
+function linkTarget(url: string): string {
+  return url.replace(/\(/g, '%28').replace(/\)/g, '%29').replace(/\s/g, '%20');
+}
+
+/**
+ * Convert the children of an element into a list of blocks: runs of inline
+ * content become paragraphs, block elements contribute their own blocks
+ */
+function blocks(nodes: Node[], context: ConvertContext): string[] {
+  const result: string[] = [];
+  let paragraph = '';
+  const flush = () => {
+    const text = resolveLineStarts(paragraph.replace(/[ \t]*\n[ \t]*/g, '\n').replace(/[ \t]{2,}/g, ' ').trim());
+    if (text) result.push(text);
+    paragraph = '';
+  };
+
+  for (const node of nodes) {
+    if (isElement(node) && isBlock(node)) {
+      flush();
+      // Code block headers repeat the language, which the fence already carries
+      if (tagOf(node) === 'pre' && result.length > 0 && result[result.length - 1].toLowerCase() === codeLanguage(node)) {
+        result.pop();
+      }
+      result.push(...block(node, context));
+    } else {
+      paragraph += inline(node, context);
+    }
+  }
+  flush();
+  return result;
+}
+
+function isBlock(element: HTMLElement): boolean {
+  if (BLOCK_TAGS.has(tagOf(element))) return true;
+  return latexOf(element)?.display ?? false;
+}
+
+/**
+ * Convert a block element into one or more blocks
+ */
+function block(element: HTMLElement, context: ConvertContext): string[] {
+  const tag = tagOf(element);
+  const markdown = context.format === 'markdown';
+
+  const math = latexOf(element);
+  if (math) return [markdown ? `$$\n${math.tex}\n$$` : math.tex];
+
+  switch (tag) {
+    case 'h1': case 'h2': case 'h3': case 'h4': case 'h5': case 'h6': {
+      const text = inlineChildren(element, context).split(LINE_START).join('').replace(/\s+/g, ' ').trim();
+      if (!text) return [];
+      return [markdown ? `${'#'.repeat(Number(tag[1]))} ${text}` : text];
+    }
+    case 'pre': {
+      const code = (element.querySelector('code') ?? element).text.replace(/\n$/, '');
+      if (!markdown) return code ? [code] : [];
+      const fence = fenceFor(code, 3);
+      return [`${fence}${codeLanguage(element)}\n${code}\n${fence}`];
+    }
+    case 'ul': case 'ol':
+      return [list(element, context)].filter(Boolean);
+    case 'table':
+      return [table(element, context)].filter(Boolean);
+    case 'blockquote': {
+      const content = blocks(element.childNodes, context).join('\n\n');
+      if (!markdown || !content) return content ? [content] : [];
+      return [content.split('\n').map((line) => (line ? `> ${line}` : '>')).join('\n')];
+    }
+    case 'hr':
+      return markdown ? ['---'] : [];
+    default:
+      return blocks(element.childNodes, context);
+  }
+}
+
+function inlineChildren(element: HTMLElement, context: ConvertContext): string {
+  return element.childNodes.map((child) => inline(child, context)).join('');
+}
+
+/**
+ * Convert a node appearing inside running text
+ */
+function inline(node: Node, context: ConvertContext): string {
+  const markdown = context.format === 'markdown';
+  if (node.nodeType === NodeType.TEXT_NODE) {
+    const text = node.text.replace(/\s+/g, ' ');
+    return markdown ? escapeMarkdown(text).replace(LINE_START_MARKER, `$1${LINE_START}$2`) : text;
+  }
+  if (!isElement(node)) return '';
+
+  const element = node;
+  const tag = tagOf(element);
+  const math = latexOf(element);
+  if (math) return markdown ? `$${math.tex}$` : math.tex;
+  if (DROPPED_TAGS.has(tag)) return '';
+  // A block inside inline content, e.g. a <div> in a <span>
+  if (BLOCK_TAGS.has(tag)) return `\n${block(element, context).join('\n')}\n`;
+
+  switch (tag) {
+    case 'br':
+      return '\n';
+    case 'strong': case 'b':
+      return markdown ? wrap(inlineChildren(element, context), '**') : inlineChildren(element, context);
+    case 'em': case 'i':
+      return markdown ? wrap(inlineChildren(element, context), '*') : inlineChildren(element, context);
+    case 'del': case 's': case 'strike':
+      return markdown ? wrap(inlineChildren(element, context), '~~') : inlineChildren(element, context);
+    case 'code': case 'kbd': case 'samp': {
+      const code = element.text.replace(/\s+/g, ' ');
+      if (!markdown || !code.trim()) return code;
+      const fence = fenceFor(code, 1);
+      const padding = code.startsWith('`') || code.endsWith('`') ? ' ' : '';
+      return `${fence}${padding}${code}${padding}${fence}`;
+    }
+    case 'sup': {
+      // Citation superscripts: "1", "[1]" or "1, 2"
+      const text = element.text.trim();
+      if (/^\[?\d+(?:[,\s\][]+\d+)*\]?$/.test(text)) {
+        return text.match(/\d+/g)!.map((index) => `[${index}]`).join('');
+      }
+      return markdown ? `^${inlineChildren(element, context).trim()}` : inlineChildren(element, context);
+    }
+    case 'a': {
+      const text = inlineChildren(element, context);
+      const href = element.getAttribute('href');
+      if (!text.trim()) return text;
+      if (!href || href.startsWith('#') || /^javascript:/i.test(href)) return text;
+      const url = absolute(href, context.baseUrl);
+      if (!markdown) return text.trim() === url ? text : `${text} (${url})`;
+      return wrap(text, '[', `](${linkTarget(url)})`);
+    }
+    case 'img': {
+      const alt = (element.getAttribute('alt') || '').trim();
+      const src = element.getAttribute('src');
+      if (!markdown) return alt;
+      return src ? `![${alt}](${linkTarget(absolute(src, context.baseUrl))})` : '';
+    }
+    default:
+      return inlineChildren(element, context);
+  }
+}
+
+/**
+ * Render a list, indenting the content and nested lists of each item under
+ * its marker
+ */
+function list(element: HTMLElement, context: ConvertContext): string {
+  const ordered = tagOf(element) === 'ol';
+  let number = Number(element.getAttribute('start')) || 1;
+  const items: string[] = [];
+
+  for (const child of element.childNodes) {
+    if (!isElement(child)) continue;
+    const tag = tagOf(child);
+    // A list nested directly in a list belongs to the preceding item
+    if ((tag === 'ul' || tag === 'ol') && items.length > 0) {
+      const nested = list(child, context);
+      if (nested) items[items.length - 1] += `\n${indent(nested, ordered ? `${number - 1}. `.length : 2)}`;
+      continue;
+    }
+    if (tag !== 'li') continue;
+
+    const marker = ordered ? `${number++}. ` : '- ';
+    // Nested lists follow the item text directly; other blocks are separated by a blank line
+    const parts: Array<{ text: string; nested: boolean }> = [];
+    let run: Node[] = [];
+    const flush = () => {
+      parts.push(...blocks(run, context).map((text) => ({ text, nested: false })));
+      run = [];
+    };
+    for (const node of child.childNodes) {
+      if (isElement(node) && (tagOf(node) === 'ul' || tagOf(node) === 'ol')) {
+        flush();
+        const nested = list(node, context);
+        if (nested) parts.push({ text: nested, nested: true });
+      } else {
+        run.push(node);
+      }
+    }
+    flush();
+    const body = parts.map((part, i) => `${i === 0 ? '' : part.nested ? '\n' : '\n\n'}${part.text}`).join('');
+    items.push(`${marker}${indent(body, marker.length).trimStart()}`);
+  }
+  return items.join('\n');
+}
+
+function indent(text: string, width: number): string {
+  const padding = ' '.repeat(width);
+  return text.split('\n').map((line) => (line ? `${padding}${line}` : line)).join('\n');
+}
+
+/**
+ * Render a table as a GFM table, or as ` | `-separated lines in text
+ * format. The first row is the header; column alignment is taken from it.
+ */
+function table(element: HTMLElement, context: ConvertContext): string {
+  const sections = [element, ...element.childNodes.filter((child): child is HTMLElement =>
+    isElement(child) && ['thead', 'tbody', 'tfoot'].includes(tagOf(child))
+  )];
+  const rows = sections
+    .flatMap((section) => section.childNodes.filter((row): row is HTMLElement => isElement(row) && tagOf(row) === 'tr'))
+    .map((row) => row.childNodes.filter((cell): cell is HTMLElement =>
+      isElement(cell) && (tagOf(cell) === 'th' || tagOf(cell) === 'td')
+    ))
+    .filter((cells) => cells.length > 0);
+  if (rows.length === 0) return '';
+
+  const text = (cell: HTMLElement) => blocks(cell.childNodes, context).join(' ').replace(/\s*\n\s*/g, ' ');
+  const width = Math.max(...rows.map((cells) => cells.length));
+  const lines = rows.map((cells) => {
+    const values = cells.map(text);
+    while (values.length < width) values.push('');
+    return values;
+  });
+
+  if (context.format === 'text') {
+    return lines.map((values) => values.join(' | ').trimEnd()).join('\n');
+  }
+
+  const alignments = Array.from({ length: width }, (_, i) => {
+    const cell = rows[0][i];
+    const align = (cell?.getAttribute('align') || cell?.getAttribute('style')?.match(/text-align:\s*(\w+)/)?.[1] || '').toLowerCase();
+    return align === 'center' ? ':---:' : align === 'right' ? '---:' : align === 'left' ? ':---' : '---';
+  });
+  const row = (values: string[]) => `| ${values.map((value) => value.replace(/\|/g, '\\|')).join(' | ')} |`;
+  return [row(lines[0]), `| ${alignments.join(' | ')} |`, ...lines.slice(1).map(row)].join('\n');
+}
+
+/**
+ * Remove what a reader of the HTML does not need: scripts, styles, controls,
+ * comments, the visual part of KaTeX formulas (their MathML is kept) and
+ * all presentational attributes. Relative links are resolved against
+ * `baseUrl` when given.
+ * @param html Scraped HTML fragment
+ * @param baseUrl URL of the page the fragment came from
+ */
+export function cleanHtml(html: string, baseUrl?: string): string {
+  const root = parse(html, PARSE_OPTIONS);
+  cleanChildren(root, baseUrl);
+  return root.innerHTML.trim();
+}
+
+/**
+ * Clean the descendants of an element in one walk; querySelectorAll('*') is
+ * quadratic in the parser, which long pages make noticeable
+ */
+function cleanChildren(element: HTMLElement, baseUrl?: string): void {
+  for (const child of [...element.childNodes]) {
+    if (!isElement(child)) continue;
+    const classes = child.getAttribute('class') || '';
+    if ((DROPPED_TAGS.has(tagOf(child)) && !latexOf(child)) || /(^|\s)katex-html(\s|$)/.test(classes)) {
+      child.remove();
+      continue;
+    }
+
+    const kept = classes.match(/(?:^|\s)((?:language|lang|highlight-source)-[\w+#.-]+|katex(?:-display)?)(?=\s|$)/)?.[1];
+    for (const name of Object.keys(child.attributes)) {
+      if (!KEPT_ATTRIBUTES.has(name.toLowerCase()) && !(name === 'type' && tagOf(child) === 'script')) {
+        child.removeAttribute(name);
+      }
+    }
+    if (kept) child.setAttribute('class', kept);
+    for (const name of ['href', 'src']) {
+      const value = child.getAttribute(name);
+      if (value && !value.startsWith('#')) child.setAttribute(name, absolute(value, baseUrl));
+    }
+    cleanChildren(child, baseUrl);
+  }
+}
+
+/**
+ * Convert HTML to Markdown
+ * @param html HTML fragment, usually from cleanHtml
+ * @param baseUrl URL relative links are resolved against
+ */
+export function htmlToMarkdown(html: string, baseUrl?: string): string {
+  const root = parse(html, PARSE_OPTIONS);
+  return blocks(root.childNodes, { format: 'markdown', baseUrl }).join('\n\n').replace(/\n{3,}/g, '\n\n').trim();
+}
+
+/**
+ * Convert HTML to plain text that keeps the block structure: paragraphs
+ * separated by blank lines, list markers, code without fences, tables as
+ * ` | `-separated rows and formulas as their LaTeX source
+ * @param html HTML fragment, usually from cleanHtml
+ * @param baseUrl URL relative links are resolved against
+ */
+export function htmlToText(html: string, baseUrl?: string): string {
+  const root = parse(html, PARSE_OPTIONS);
+  return blocks(root.childNodes, { format: 'text', baseUrl }).join('\n\n').replace(/\n{3,}/g, '\n\n').trim();
+}
+
+/**
+ * Render cleaned HTML in the requested output format
+ */
+export function convertHtml(html: string, format: OutputFormat, baseUrl?: string): string {
+  switch (format) {
+    case 'html':
+      return html;
+    case 'text':
+      return htmlToText(html, baseUrl);
+    default:
+      return htmlToMarkdown(html, baseUrl);
+  }
+}
+
+/**
+ * Render Markdown written by the server in the requested output format
+ * @param markdown GitHub-flavored Markdown
+ * @param format Requested format
+ */
+export function convertMarkdown(markdown: string, format: OutputFormat): string {
+  if (format === 'markdown') return markdown;
+  // Line breaks are meant as such, e.g. between bibliography entries
+  return convertHtml(cleanHtml(marked.parse(markdown, { async: false, gfm: true, breaks: true })), format);
+}
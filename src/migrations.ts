@@ -0,0 +1,118 @@
+import type Database from 'better-sqlite3';
+import { existsSync } from 'fs';
+import { logInfo } from './logging.js';
+
+// ─── DATABASE MIGRATIONS ───────────────────────────────────────────────
+// The schema version is stored in `PRAGMA user_version`. Migrations are
+// applied in order, each in its own transaction together with the version
+// bump, so a failure leaves the database at the last completed version.
+// Never edit a released migration; append a new one instead.
+
+/**
+ * A single schema change
+ */
+export interface Migration {
+  version: number;
+  description: string;
+  up: (db: Database.Database) => void;
+}
+
+export const MIGRATIONS: Migration[] = [
+  {
+    version: 1,
+    description: 'Create chat_history table',
+    up: (db) => {
+      // IF NOT EXISTS: databases created before migrations existed already have it
+      db.exec(`
+        CREATE TABLE IF NOT EXISTS chat_history (
+          id TEXT PRIMARY KEY,
+          messages TEXT NOT NULL,
+          created_at INTEGER NOT NULL,
+          updated_at INTEGER NOT NULL
+        );
+      `);
+    },
+  },
+  {
+    version: 2,
+    description: 'Add full-text index over chat messages',
+    up: (db) => {
+      db.exec(`
+        CREATE VIRTUAL TABLE IF NOT EXISTS chat_messages_fts USING fts5(
+          chat_id UNINDEXED,
+          message_index UNINDEXED,
+          role UNINDEXED,
+          content
+        );
+        DELETE FROM chat_messages_fts;
+        INSERT INTO chat_messages_fts (chat_id, message_index, role, content)
+          SELECT h.id, m.key, json_extract(m.value, '$.role'), json_extract(m.value, '$.content')
+            FROM chat_history h, json_each(h.messages) m;
+      `);
+    },
+  },
+  {
+    version: 3,
+    description: 'Add response_cache table',
+    up: (db) => {
+      db.exec(`
+        CREATE TABLE response_cache (
+          key TEXT PRIMARY KEY,
+          tool TEXT NOT NULL,
+          args TEXT NOT NULL,
+          response TEXT NOT NULL,
+          created_at INTEGER NOT NULL,
+          expires_at INTEGER NOT NULL,
+          hits INTEGER NOT NULL DEFAULT 0
+        );
+        CREATE INDEX idx_response_cache_tool ON response_cache (tool);
+        CREATE INDEX idx_response_cache_expires_at ON response_cache (expires_at);
+      `);
+    },
+  },
+];
+
+/**
+ * Schema version this build of the server expects
+ */
+export const LATEST_SCHEMA_VERSION = MIGRATIONS[MIGRATIONS.length - 1].version;
+
+/**
+ * Bring the database schema up to LATEST_SCHEMA_VERSION. A copy of the
+ * database is written next to it before any migration runs.
+ * @param db Open database connection
+ * @param dbPath Path of the database file, used to name the backup
+ * @throws Error when the database was created by a newer server version
+ */
+export function runMigrations(db: Database.Database, dbPath: string): void {
+  const current = db.pragma('user_version', { simple: true }) as number;
+
+  if (current > LATEST_SCHEMA_VERSION) {
+    throw new Error(
+      `Database ${dbPath} has schema version ${current}, but this server only supports up to ` +
+      `version ${LATEST_SCHEMA_VERSION}. Upgrade perplexity-mcp-server or use a different database file.`
+    );
+  }
+
+  const pending = MIGRATIONS.filter((migration) => migration.version > current);
+  if (pending.length === 0) return;
+
+  const hasTables = (db.prepare("SELECT COUNT(*) AS count FROM sqlite_master WHERE type = 'table'").get() as { count: number }).count > 0;
+  if (hasTables) {
+    const backupPath = `${dbPath}.v${current}-${Date.now()}.bak`;
+    if (!existsSync(backupPath)) {
+      db.prepare('VACUUM INTO ?').run(backupPath);
+      logInfo(`Database backed up to ${backupPath} before migrating`);
+    }
+  }
+
+  for (const migration of pending) {
+    logInfo(`Applying database migration ${migration.version}: ${migration.description}`);
+    db.transaction(() => {
+      migration.up(db);
+      db.pragma(`user_version = ${migration.version}`);
+    })();
+  }
+
+  logInfo(`Database schema migrated from version ${current} to ${LATEST_SCHEMA_VERSION}`);
+}
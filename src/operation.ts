@@ -0,0 +1,106 @@
+import type { ProgressNotification } from '@modelcontextprotocol/sdk/types.js';
+import { logDebug } from './logging.js';
+import { OperationCancelledError } from './errors.js';
+
+// ─── OPERATION CONTEXT ─────────────────────────────────────────────────
+// State carried by every tool call that drives the browser: its number for
+// logs, the abort signal the SDK trips on `notifications/cancelled`, and a
+// reporter for `notifications/progress`.
+
+/**
+ * Stages of a browser query reported to the client
+ */
+export type QueryPhase = 'navigating' | 'waiting' | 'generating' | 'extracting';
+
+/**
+ * Sends `notifications/progress` for one request. Every call is a no-op when
+ * the request carried no progress token.
+ */
+export class ProgressReporter {
+  private progress = 0;
+
+  /**
+   * @param token `_meta.progressToken` of the request, if any
+   * @param send Notification sender of the request handler
+   */
+  constructor(
+    private token: string | number | undefined,
+    private send: (notification: ProgressNotification) => Promise<void>
+  ) {}
+
+  /**
+   * Announce that the query entered a new phase
+   */
+  public phase(phase: QueryPhase): void {
+    this.notify(`phase: ${phase}`);
+  }
+
+  /**
+   * Forward newly streamed answer text
+   * @param delta Text appended since the previous notification
+   */
+  public text(delta: string): void {
+    if (delta) this.notify(delta);
+  }
+
+  /**
+   * Report a step of a tool that runs several queries
+   * @param message What the tool is doing, e.g. "Sub-query 2/4 answered"
+   */
+  public step(message: string): void {
+    this.notify(message);
+  }
+
+  private notify(message: string): void {
+    if (this.token === undefined) return;
+    this.send({
+      method: 'notifications/progress',
+      params: { progressToken: this.token, progress: ++this.progress, message },
+    }).catch((error) => logDebug('Failed to send progress notification', error));
+  }
+}
+
+/**
+ * Context of one browser-backed tool call
+ */
+export interface Operation {
+  id: number;
+  /** Name of the tool being called */
+  tool: string;
+  /** Start of the call, for the retry deadline */
+  startedAt: number;
+  signal: AbortSignal;
+  progress: ProgressReporter;
+}
+
+/**
+ * Throw OperationCancelledError if the signal has been aborted
+ */
+export function throwIfCancelled(signal?: AbortSignal): void {
+  if (signal?.aborted) {
+    throw new OperationCancelledError();
+  }
+}
+
+/**
+ * Settle with the promise, or reject with OperationCancelledError as soon as
+ * the signal aborts, whichever comes first
+ */
+export function raceCancellation<T>(promise: Promise<T>, signal: AbortSignal): Promise<T> {
+  if (signal.aborted) return Promise.reject(new OperationCancelledError());
+
+  return new Promise<T>((resolve, reject) => {
+    const onAbort = () => reject(new OperationCancelledError());
+    signal.addEventListener('abort', onAbort, { once: true });
+    promise.then(
+      (value) => {
+        signal.removeEventListener('abort', onAbort);
+        resolve(value);
+      },
+      (error) => {
+        signal.removeEventListener('abort', onAbort);
+        reject(error);
+      }
+    );
+  });
+}
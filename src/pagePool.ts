@@ -0,0 +1,274 @@
+import type { Page } from 'puppeteer';
+import { logDebug, logInfo, logWarn } from './logging.js';
+import { OperationCancelledError } from './errors.js';
+
+// ─── PAGE POOL ─────────────────────────────────────────────────────────
+// Each operation leases its own tab so concurrent tool calls never type
+// into the same page. Requests beyond the pool size wait in a FIFO queue.
+
+/**
+ * Pool sizing and queueing limits
+ */
+export interface PagePoolOptions {
+  /** Maximum number of pages open at once */
+  size: number;
+  /** Maximum time a request may wait in the queue for a page */
+  acquireTimeout: number;
+}
+
+/**
+ * Current pool occupancy
+ */
+export interface PagePoolStats {
+  size: number;
+  idle: number;
+  leased: number;
+  queued: number;
+}
+
+/**
+ * A request waiting for a page
+ */
+interface Waiter {
+  label: string;
+  resolve: (page: Page) => void;
+  reject: (error: Error) => void;
+  timer: NodeJS.Timeout;
+  /** Removes the abort listener from the caller's signal */
+  detach: () => void;
+}
+
+/**
+ * Fixed-size pool of browser pages with a FIFO wait queue
+ */
+export class PagePool {
+  private idle: Page[] = [];
+  private leased = new Set<Page>();
+  /** Leased pages that must be closed instead of reused when released */
+  private stale = new Set<Page>();
+  private creating = 0;
+  private waiters: Waiter[] = [];
+  private closed = false;
+  /** Bumped by invalidate(); pages created under an older one are closed */
+  private generation = 0;
+
+  /**
+   * @param createPage Opens and configures a new page
+   * @param options Pool size and queue timeout
+   */
+  constructor(
+    private createPage: () => Promise<Page>,
+    private options: PagePoolOptions
+  ) {}
+
+  private get total(): number {
+    return this.idle.length + this.leased.size + this.creating;
+  }
+
+  /**
+   * Current occupancy, for logging
+   */
+  public stats(): PagePoolStats {
+    return {
+      size: this.options.size,
+      idle: this.idle.length,
+      leased: this.leased.size,
+      queued: this.waiters.length,
+    };
+  }
+
+  /**
+   * Lease a page, waiting in line when all pages are busy
+   * @param label Name of the requesting operation, used in logs
+   * @param signal Removes the request from the queue when aborted
+   * @throws Error when no page frees up within the acquire timeout
+   */
+  public acquire(label: string, signal?: AbortSignal): Promise<Page> {
+    if (this.closed) {
+      return Promise.reject(new Error('Page pool is closed'));
+    }
+    if (signal?.aborted) {
+      return Promise.reject(new OperationCancelledError());
+    }
+
+    return new Promise<Page>((resolve, reject) => {
+      const onAbort = () => {
+        const index = this.waiters.indexOf(waiter);
+        if (index === -1) return;
+        this.waiters.splice(index, 1);
+        clearTimeout(waiter.timer);
+        logInfo(`${label} cancelled while queued (queue depth ${this.waiters.length})`);
+        reject(new OperationCancelledError());
+      };
+      const waiter: Waiter = {
+        label,
+        resolve,
+        reject,
+        timer: setTimeout(() => {
+          const index = this.waiters.indexOf(waiter);
+          if (index === -1) return;
+          this.waiters.splice(index, 1);
+          waiter.detach();
+          reject(new Error(
+            `Timed out after ${this.options.acquireTimeout}ms waiting for a free browser page ` +
+            `(queue depth ${this.waiters.length + 1})`
+          ));
+        }, this.options.acquireTimeout),
+        detach: () => signal?.removeEventListener('abort', onAbort),
+      };
+      this.waiters.push(waiter);
+      signal?.addEventListener('abort', onAbort, { once: true });
+
+      if (this.idle.length === 0 && this.total >= this.options.size) {
+        logInfo(`${label} queued for a browser page (queue depth ${this.waiters.length}, ${this.leased.size}/${this.options.size} pages busy)`);
+      }
+      this.dispatch();
+    });
+  }
+
+  /**
+   * Return a leased page to the pool
+   * @param page Page obtained from acquire or replace
+   */
+  public release(page: Page): void {
+    this.leased.delete(page);
+
+    if (this.closed || this.stale.has(page) || page.isClosed()) {
+      this.stale.delete(page);
+      this.closePage(page);
+    } else {
+      this.idle.push(page);
+    }
+
+    logDebug('Browser page released', this.stats());
+    this.dispatch();
+  }
+
+  /**
+   * Close a leased page and lease a freshly created one in its place
+   * @param page Page currently leased by the caller
+   * @returns The replacement page, leased to the caller
+   * @throws Error when the pool is closed before the page is ready
+   */
+  public async replace(page: Page): Promise<Page> {
+    this.leased.delete(page);
+    this.stale.delete(page);
+    this.closePage(page);
+
+    this.creating++;
+    try {
+      for (;;) {
+        const generation = this.generation;
+        const fresh = await this.createPage();
+        if (this.closed) {
+          this.closePage(fresh);
+          throw new Error('Page pool is closed');
+        }
+        // The browser was restarted while the page opened: it belongs to the old one
+        if (generation === this.generation) {
+          this.leased.add(fresh);
+          return fresh;
+        }
+        this.closePage(fresh);
+      }
+    } finally {
+      this.creating--;
+      this.dispatch();
+    }
+  }
+
+  /**
+   * Close a leased page when it is released instead of reusing it, e.g.
+   * because its proxy was throttled
+   * @param page Page currently leased by the caller
+   */
+  public retire(page: Page): void {
+    if (this.leased.has(page)) this.stale.add(page);
+  }
+
+  /**
+   * Drop every page of the current browser: idle pages are closed now,
+   * leased pages when they are released, and pages still being opened
+   * once they are ready. Used before a browser restart.
+   */
+  public invalidate(): void {
+    this.generation++;
+    for (const page of this.idle) this.closePage(page);
+    this.idle = [];
+    for (const page of this.leased) this.stale.add(page);
+  }
+
+  /**
+   * Close all pages and reject every queued request
+   */
+  public async close(): Promise<void> {
+    this.closed = true;
+    for (const waiter of this.waiters.splice(0)) {
+      clearTimeout(waiter.timer);
+      waiter.detach();
+      waiter.reject(new Error('Page pool is closed'));
+    }
+    const pages = [...this.idle, ...this.leased];
+    this.idle = [];
+    this.leased.clear();
+    this.stale.clear();
+    await Promise.all(pages.map((page) => page.close().catch(() => undefined)));
+  }
+
+  /**
+   * Hand idle pages to waiters in FIFO order and open new pages while
+   * there is room in the pool
+   */
+  private dispatch(): void {
+    while (this.waiters.length > 0 && this.idle.length > 0) {
+      const waiter = this.waiters.shift()!;
+      const page = this.idle.pop()!;
+      clearTimeout(waiter.timer);
+      waiter.detach();
+      this.leased.add(page);
+      logDebug(`Browser page leased to ${waiter.label}`, this.stats());
+      waiter.resolve(page);
+    }
+
+    let needed = this.waiters.length - this.creating;
+    while (needed > 0 && this.total < this.options.size && !this.closed) {
+      needed--;
+      this.creating++;
+      const generation = this.generation;
+      this.createPage()
+        .then((page) => {
+          this.creating--;
+          if (this.closed) {
+            this.closePage(page);
+            return;
+          }
+          if (generation !== this.generation) {
+            // Opened in the browser that was restarted since
+            this.closePage(page);
+            this.dispatch();
+            return;
+          }
+          this.idle.push(page);
+          this.dispatch();
+        })
+        .catch((error) => {
+          this.creating--;
+          logWarn('Failed to open a browser page', error);
+          const waiter = this.waiters.shift();
+          if (waiter) {
+            clearTimeout(waiter.timer);
+            waiter.detach();
+            waiter.reject(error instanceof Error ? error : new Error(String(error)));
+          }
+          this.dispatch();
+        });
+    }
+  }
+
+  /**
+   * Close a page without waiting, ignoring errors from an already dead page
+   */
+  private closePage(page: Page): void {
+    page.close().catch(() => undefined);
+  }
+}
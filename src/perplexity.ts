@@ -0,0 +1,645 @@
+import { TimeoutError, type Page } from 'puppeteer';
+import { logDebug, logInfo } from './logging.js';
+import { cleanHtml, htmlToMarkdown } from './markdown.js';
+import { throwIfCancelled, type ProgressReporter } from './operation.js';
+import type { SourceFocus } from './types.js';
+import {
+  AnswerTimeoutError,
+  ChallengeError,
+  ModeUnavailableError,
+  NavigationTimeoutError,
+  RateLimitedError,
+  SelectorNotFoundError,
+} from './errors.js';
+
+// ─── PERPLEXITY PAGE DRIVER ────────────────────────────────────────────
+// Everything that depends on the structure of the Perplexity web UI lives
+// here, so a site change only requires touching this file. The DOM helpers
+// below are self-contained so they can run through `page.evaluate` against
+// the live site or against a saved HTML fixture loaded with `page.setContent`.
+
+export const PERPLEXITY_URL = 'https://www.perplexity.ai/';
+
+/**
+ * CSS selectors for the elements we interact with, in order of preference
+ */
+export const SELECTORS = {
+  queryInput: [
+    'textarea[placeholder*="Ask"]',
+    'div#ask-input[contenteditable="true"]',
+    'div[contenteditable="true"]',
+    'textarea',
+  ],
+  stopButton: [
+    'button[aria-label="Stop generating response"]',
+    'button[aria-label*="Stop"]',
+    'button[data-testid="stop-generating-response-button"]',
+  ],
+  answer: [
+    'div.prose',
+    '[data-testid="answer"]',
+    'div[dir="auto"].markdown',
+  ],
+  /** Inline citation markers inside an answer */
+  citation: [
+    'a.citation',
+    'span.citation',
+    'a[data-citation]',
+    'sup a[href^="http"]',
+  ],
+  /** Entries of the sources list shown above or beside the answer */
+  sourceItem: [
+    '[data-testid="source-item"] a[href^="http"]',
+    'div[class*="source"] a[href^="http"]',
+  ],
+  /** Button opening the source focus menu next to the query box */
+  sourceFocusButton: [
+    'button[aria-label="Sources"]',
+    'button[aria-label*="Focus"]',
+    'button[data-testid="sources-switcher-button"]',
+  ],
+  /** Pro Search switch; its state is read from aria-checked/aria-pressed/data-state */
+  proToggle: [
+    'button[role="switch"][aria-label*="Pro"]',
+    'button[aria-label*="Pro Search"]',
+    'button[data-testid="copilot-toggle"]',
+  ],
+  /** Button opening the model picker, only shown to Pro accounts */
+  modelButton: [
+    'button[aria-label*="model" i]',
+    'button[data-testid="model-selector"]',
+  ],
+  /** Entries of an open menu */
+  menuOption: '[role="menuitem"], [role="menuitemradio"], [role="menuitemcheckbox"], [role="option"], [role="radio"]',
+};
+
+/**
+ * Menu labels of each source focus, in order of preference
+ */
+export const SOURCE_FOCUS_LABELS: Record<SourceFocus, string[]> = {
+  web: ['Web'],
+  academic: ['Academic'],
+  social: ['Social', 'Reddit'],
+  video: ['Video', 'YouTube'],
+  writing: ['Writing', 'No search', 'None'],
+};
+
+/**
+ * Signs of a CAPTCHA or bot-protection interstitial instead of the real page
+ */
+export const CHALLENGE_MARKERS = {
+  /** Page titles of interstitials, matched case-insensitively as prefixes */
+  titles: [
+    'just a moment',
+    'attention required',
+    'verify you are human',
+  ],
+  /** Elements only present on challenge pages */
+  selectors: [
+    '#challenge-form',
+    '#challenge-running',
+    '#cf-challenge-running',
+    '.cf-turnstile',
+    'iframe[src*="challenges.cloudflare.com"]',
+    'iframe[src*="hcaptcha.com"]',
+    'iframe[src*="recaptcha"]',
+  ],
+};
+
+/**
+ * How long a detected challenge is given to clear by itself (Cloudflare's
+ * JavaScript check usually passes within a few seconds) before failing
+ */
+export const CHALLENGE_SETTLE_TIME = 10000;
+
+/**
+ * Tuning for deciding when a streamed answer has finished
+ */
+export const COMPLETION_HEURISTICS = {
+  /** Delay between two DOM snapshots */
+  pollInterval: 500,
+  /** Consecutive unchanged snapshots required once the stop button is gone */
+  stableChecks: 3,
+  /** Unchanged snapshots required when no stop button was ever seen */
+  stableChecksWithoutStopButton: 8,
+};
+
+/**
+ * Snapshot of the answer area at one point in time
+ */
+export interface AnswerState {
+  /** Text of the latest answer block, empty when none has rendered yet */
+  text: string;
+  /** Whether Perplexity is still streaming (stop button visible) */
+  generating: boolean;
+  /** Number of answer blocks on the page (one per turn of a thread) */
+  count: number;
+}
+
+/**
+ * Source as scraped from the page, before normalization
+ */
+export interface RawSource {
+  url: string;
+  title: string;
+  snippet?: string;
+}
+
+/**
+ * Answer content as scraped from the page
+ */
+export interface RawAnswer {
+  /** Answer in Markdown with inline citations rewritten to `[n]` markers */
+  text: string;
+  /** Cleaned answer HTML, with the same `[n]` markers */
+  html: string;
+  /** Sources in marker order (`[1]` is the first entry) */
+  sources: RawSource[];
+  /** URL of the Perplexity thread the answer belongs to */
+  url: string;
+}
+
+/**
+ * Read the current answer state from a document. Runs in the browser context,
+ * so it must not reference anything outside its arguments.
+ * @param selectors The SELECTORS table
+ */
+export function readAnswerState(selectors: typeof SELECTORS): AnswerState {
+  const first = (candidates: string[]): Element | null => {
+    for (const selector of candidates) {
+      const element = document.querySelector(selector);
+      if (element) return element;
+    }
+    return null;
+  };
+
+  let answerElements: Element[] = [];
+  for (const selector of selectors.answer) {
+    answerElements = Array.from(document.querySelectorAll(selector));
+    if (answerElements.length > 0) break;
+  }
+
+  const latest = answerElements[answerElements.length - 1] as HTMLElement | undefined;
+  return {
+    text: latest ? (latest.innerText ?? latest.textContent ?? '').trim() : '',
+    generating: first(selectors.stopButton) !== null,
+    count: answerElements.length,
+  };
+}
+
+/**
+ * Extract the latest answer's HTML with its sources. Inline citation
+ * elements are replaced by `[n]` markers numbered after the sources list;
+ * the HTML is converted outside the browser (see markdown.ts). Runs in the
+ * browser context, so it must not reference anything outside its arguments.
+ * @param selectors The SELECTORS table
+ */
+export function readAnswerContent(selectors: typeof SELECTORS): Omit<RawAnswer, 'text'> {
+  const sources: RawSource[] = [];
+  const indexOfUrl = (url: string): number => {
+    const normalized = url.replace(/#.*$/, '').replace(/\/$/, '');
+    return sources.findIndex((s) => s.url.replace(/#.*$/, '').replace(/\/$/, '') === normalized);
+  };
+
+  for (const selector of selectors.sourceItem) {
+    for (const link of Array.from(document.querySelectorAll<HTMLAnchorElement>(selector))) {
+      if (indexOfUrl(link.href) !== -1) continue;
+      const lines = (link.innerText || link.textContent || '')
+        .split('\n')
+        .map((line) => line.trim())
+        .filter(Boolean);
+      sources.push({
+        url: link.href,
+        title: link.getAttribute('title') || lines[0] || link.href,
+        snippet: lines.slice(1).join(' ') || undefined,
+      });
+    }
+    if (sources.length > 0) break;
+  }
+
+  let answerElements: Element[] = [];
+  for (const selector of selectors.answer) {
+    answerElements = Array.from(document.querySelectorAll(selector));
+    if (answerElements.length > 0) break;
+  }
+  const latest = answerElements[answerElements.length - 1] as HTMLElement | undefined;
+  if (!latest) return { html: '', sources, url: window.location.href };
+
+  // Work on a clone so the live page is left untouched
+  const clone = latest.cloneNode(true) as HTMLElement;
+
+  for (const citation of Array.from(clone.querySelectorAll(selectors.citation.join(', ')))) {
+    const link = (citation.matches('a') ? citation : citation.querySelector('a')) as HTMLAnchorElement | null;
+    if (!link || !link.href) continue;
+    let index = indexOfUrl(link.href);
+    if (index === -1) {
+      sources.push({
+        url: link.href,
+        title: link.getAttribute('title') || link.getAttribute('aria-label') || link.href,
+      });
+      index = sources.length - 1;
+    }
+    // A marker attached to a word would read as an index, e.g. `xs[2]`
+    const space = /[\w$]$/.test(citation.previousSibling?.textContent ?? '') ? ' ' : '';
+    citation.replaceWith(document.createTextNode(`${space}[${index + 1}]`));
+  }
+
+  return { html: clone.innerHTML, sources, url: window.location.href };
+}
+
+/**
+ * Runs in the browser: describe the challenge shown on the page, if any
+ * @param markers CHALLENGE_MARKERS
+ * @returns What gave the challenge away, or null on a normal page
+ */
+export function readChallengeState(markers: typeof CHALLENGE_MARKERS): string | null {
+  const title = document.title.trim().toLowerCase();
+  const matchedTitle = markers.titles.find((candidate) => title.startsWith(candidate));
+  if (matchedTitle) return `page title "${document.title.trim()}"`;
+
+  const matchedSelector = markers.selectors.find((selector) => document.querySelector(selector));
+  if (matchedSelector) return `element ${matchedSelector}`;
+
+  return null;
+}
+
+/**
+ * Check whether the page currently shows a challenge
+ * @returns What gave the challenge away, or null on a normal page
+ */
+export async function detectChallenge(page: Page): Promise<string | null> {
+  return page.evaluate(readChallengeState, CHALLENGE_MARKERS);
+}
+
+/**
+ * Poll the page until it no longer shows a challenge
+ * @param page Page showing a challenge
+ * @param timeout Maximum time to wait
+ * @param signal Stops waiting when aborted
+ * @returns Whether the challenge cleared in time
+ */
+export async function waitForChallengeCleared(page: Page, timeout: number, signal?: AbortSignal): Promise<boolean> {
+  const deadline = Date.now() + timeout;
+  while (Date.now() < deadline) {
+    throwIfCancelled(signal);
+    // Evaluating fails while the challenge navigates to the real page
+    const challenge = await detectChallenge(page).catch(() => 'navigating');
+    if (!challenge) return true;
+    await new Promise((resolve) => setTimeout(resolve, COMPLETION_HEURISTICS.pollInterval));
+  }
+  return false;
+}
+
+/**
+ * One entry of an open menu
+ */
+export interface MenuOption {
+  text: string;
+  disabled: boolean;
+  selected: boolean;
+}
+
+/**
+ * Runs in the browser: list the visible entries of the open menu
+ * @param optionSelector SELECTORS.menuOption
+ */
+export function readMenuOptions(optionSelector: string): MenuOption[] {
+  return Array.from(document.querySelectorAll<HTMLElement>(optionSelector))
+    .filter((option) => option.offsetParent !== null)
+    .map((option) => ({
+      text: (option.innerText || option.textContent || '').replace(/\s+/g, ' ').trim(),
+      disabled: option.getAttribute('aria-disabled') === 'true' || option.hasAttribute('disabled'),
+      selected: option.getAttribute('aria-checked') === 'true' || option.getAttribute('aria-selected') === 'true',
+    }));
+}
+
+/**
+ * Runs in the browser: click the n-th visible entry of the open menu
+ */
+function clickMenuOption(optionSelector: string, index: number): void {
+  const options = Array.from(document.querySelectorAll<HTMLElement>(optionSelector))
+    .filter((option) => option.offsetParent !== null);
+  options[index]?.click();
+}
+
+/**
+ * Runs in the browser: whether a toggle button is switched on
+ */
+function readToggleState(selector: string): boolean {
+  const toggle = document.querySelector(selector);
+  if (!toggle) return false;
+  return toggle.getAttribute('aria-checked') === 'true' ||
+    toggle.getAttribute('aria-pressed') === 'true' ||
+    toggle.getAttribute('data-state') === 'checked' ||
+    toggle.getAttribute('data-state') === 'on';
+}
+
+/**
+ * First selector of a candidate list present on the page, without waiting
+ */
+async function querySelectorCandidates(page: Page, candidates: string[]): Promise<string | null> {
+  for (const selector of candidates) {
+    if (await page.$(selector)) return selector;
+  }
+  return null;
+}
+
+/**
+ * Open a menu and pick the first entry whose text matches one of the labels
+ * @param mode Name of the setting, used in errors
+ * @param requested Value asked for, used in errors
+ * @throws ModeUnavailableError when the menu is missing, or the entry is
+ *   missing or disabled for this session
+ * @returns Text of the chosen entry
+ */
+async function chooseMenuOption(
+  page: Page,
+  mode: string,
+  requested: string,
+  triggerCandidates: string[],
+  labels: string[]
+): Promise<string> {
+  const trigger = await querySelectorCandidates(page, triggerCandidates);
+  if (!trigger) {
+    throw new ModeUnavailableError(
+      `Cannot select ${mode} "${requested}": the ${mode} control is not available in this Perplexity session`,
+      { mode, requested }
+    );
+  }
+
+  await page.click(trigger);
+  await page.waitForSelector(SELECTORS.menuOption, { visible: true, timeout: 5000 }).catch(() => undefined);
+  const options = await page.evaluate(readMenuOptions, SELECTORS.menuOption);
+  const wanted = labels.map((label) => label.toLowerCase());
+  // Prefer an entry named after the label over one merely mentioning it
+  const find = (exact: boolean) => options.findIndex((option) => {
+    const text = option.text.toLowerCase();
+    return wanted.some((label) => exact ? text === label || text.startsWith(`${label} `) : text.includes(label));
+  });
+  let index = find(true);
+  if (index === -1) index = find(false);
+
+  if (index === -1 || options[index].disabled) {
+    await page.keyboard.press('Escape');
+    const available = options.filter((option) => !option.disabled).map((option) => option.text);
+    throw new ModeUnavailableError(
+      index === -1
+        ? `${mode} "${requested}" is not offered in this Perplexity session (available: ${available.join(', ') || 'none'})`
+        : `${mode} "${requested}" is not available to this Perplexity session, it may need a Pro account`,
+      { mode, requested, available }
+    );
+  }
+
+  if (options[index].selected) {
+    await page.keyboard.press('Escape');
+  } else {
+    await page.evaluate(clickMenuOption, SELECTORS.menuOption, index);
+  }
+  return options[index].text;
+}
+
+/**
+ * Search settings applied through the UI before a query is submitted
+ */
+export interface QueryModes {
+  sourceFocus?: SourceFocus;
+  pro?: boolean;
+  /** Model name as shown in the model picker */
+  model?: string;
+}
+
+/**
+ * Select the source focus, Pro Search state and model in the UI
+ * @throws ModeUnavailableError when a setting cannot be applied in this session
+ */
+export async function applyQueryModes(page: Page, modes: QueryModes, signal?: AbortSignal): Promise<void> {
+  const applied: Record<string, string | boolean> = {};
+
+  if (modes.sourceFocus) {
+    throwIfCancelled(signal);
+    await chooseMenuOption(page, 'source focus', modes.sourceFocus, SELECTORS.sourceFocusButton, SOURCE_FOCUS_LABELS[modes.sourceFocus]);
+    applied.source_focus = modes.sourceFocus;
+  }
+
+  if (modes.pro !== undefined) {
+    throwIfCancelled(signal);
+    const toggle = await querySelectorCandidates(page, SELECTORS.proToggle);
+    if (!toggle) {
+      throw new ModeUnavailableError(
+        'Pro Search cannot be toggled: the switch is not available in this Perplexity session (log in to use it)',
+        { mode: 'pro', requested: modes.pro }
+      );
+    }
+    if (await page.evaluate(readToggleState, toggle) !== modes.pro) {
+      await page.click(toggle);
+      if (await page.evaluate(readToggleState, toggle) !== modes.pro) {
+        throw new ModeUnavailableError(
+          `Pro Search could not be turned ${modes.pro ? 'on' : 'off'}; the account may have no Pro searches left`,
+          { mode: 'pro', requested: modes.pro }
+        );
+      }
+    }
+    applied.pro = modes.pro;
+  }
+
+  if (modes.model) {
+    throwIfCancelled(signal);
+    applied.model = await chooseMenuOption(page, 'model', modes.model, SELECTORS.modelButton, [modes.model]);
+  }
+
+  if (Object.keys(applied).length > 0) {
+    logDebug('Applied query modes', applied);
+  }
+}
+
+/**
+ * Find the first selector from a candidate list that matches on the page
+ * @throws ChallengeError when the page turned into a challenge instead
+ */
+async function findSelector(page: Page, candidates: string[], timeout: number, signal?: AbortSignal): Promise<string> {
+  const deadline = Date.now() + timeout;
+  while (Date.now() < deadline) {
+    throwIfCancelled(signal);
+    for (const selector of candidates) {
+      if (await page.$(selector)) return selector;
+    }
+    await new Promise((resolve) => setTimeout(resolve, COMPLETION_HEURISTICS.pollInterval));
+  }
+
+  const challenge = await detectChallenge(page);
+  if (challenge) {
+    throw new ChallengeError(
+      `Perplexity presented a bot-protection challenge at ${page.url()} (${challenge})`,
+      { url: page.url(), challenge }
+    );
+  }
+  throw new SelectorNotFoundError(`Selector not found within ${timeout}ms: ${candidates.join(', ')}`);
+}
+
+/**
+ * Poll the page until the streamed answer has finished rendering
+ * @param page Page showing a submitted query
+ * @param timeout Maximum time to wait for a complete answer
+ * @param previousCount Answers already on the page before submitting; the
+ *   new answer is only considered once more than this many are present
+ * @param options Cancellation signal and progress reporter
+ * @returns Final answer text
+ */
+export async function waitForAnswer(
+  page: Page,
+  timeout: number,
+  previousCount = 0,
+  options: Pick<QueryOptions, 'signal' | 'progress'> = {}
+): Promise<string> {
+  const deadline = Date.now() + timeout;
+  let lastText = '';
+  let reportedText = '';
+  let stableCount = 0;
+  let sawStopButton = false;
+
+  while (Date.now() < deadline) {
+    throwIfCancelled(options.signal);
+    const state = await page.evaluate(readAnswerState, SELECTORS);
+    sawStopButton = sawStopButton || state.generating;
+
+    const isNewAnswer = state.count > previousCount;
+    if (isNewAnswer && options.progress && state.text !== reportedText) {
+      if (!reportedText) options.progress.phase('generating');
+      // Streaming only appends, so anything else (re-render) is sent whole
+      options.progress.text(state.text.startsWith(reportedText) ? state.text.slice(reportedText.length) : state.text);
+      reportedText = state.text;
+    }
+
+    if (isNewAnswer && state.text && state.text === lastText && !state.generating) {
+      stableCount++;
+    } else {
+      stableCount = 0;
+    }
+    lastText = state.text;
+
+    const required = sawStopButton
+      ? COMPLETION_HEURISTICS.stableChecks
+      : COMPLETION_HEURISTICS.stableChecksWithoutStopButton;
+    if (stableCount >= required) {
+      logDebug(`Answer complete (${lastText.length} characters)`);
+      return lastText;
+    }
+
+    await new Promise((resolve) => setTimeout(resolve, COMPLETION_HEURISTICS.pollInterval));
+  }
+
+  throw new AnswerTimeoutError(`No complete answer after ${timeout}ms`);
+}
+
+/**
+ * Timeouts used while driving the page
+ */
+export interface QueryTimeouts {
+  navigation: number;
+  answer: number;
+}
+
+/**
+ * Navigate to a URL, translating timeouts and blocking responses into typed errors
+ * @param page Page to navigate
+ * @param url Destination
+ * @param timeout Navigation timeout
+ * @param signal Stops waiting for a challenge to clear when aborted
+ * @throws ChallengeError when a challenge page is still shown after
+ *   CHALLENGE_SETTLE_TIME
+ */
+export async function navigate(page: Page, url: string, timeout: number, signal?: AbortSignal): Promise<void> {
+  let response;
+  try {
+    response = await page.goto(url, { waitUntil: 'domcontentloaded', timeout });
+  } catch (error) {
+    if (error instanceof TimeoutError) {
+      throw new NavigationTimeoutError(`Navigation to ${url} timed out after ${timeout}ms`);
+    }
+    throw error;
+  }
+
+  const status = response?.status();
+  if (status === 429) {
+    throw new RateLimitedError(`Perplexity is rate limiting requests (HTTP 429 from ${url})`);
+  }
+
+  const challenge = response?.headers()['cf-mitigated'] === 'challenge'
+    ? 'cf-mitigated response header'
+    : await detectChallenge(page);
+  if (!challenge) return;
+
+  logInfo(`Challenge detected at ${url} (${challenge}), waiting for it to clear`);
+  if (await waitForChallengeCleared(page, CHALLENGE_SETTLE_TIME, signal)) {
+    logInfo('Challenge cleared by itself');
+    return;
+  }
+  throw new ChallengeError(
+    `Perplexity presented a bot-protection challenge at ${url} (${challenge})`,
+    { url, challenge }
+  );
+}
+
+/**
+ * Optional behaviour of runQuery
+ */
+export interface QueryOptions {
+  /** Existing Perplexity thread to ask a follow-up in; a new thread is started when omitted */
+  threadUrl?: string;
+  /** Aborts the query between steps when the client cancels */
+  signal?: AbortSignal;
+  /** Receives phase changes and streamed answer text */
+  progress?: ProgressReporter;
+  /** Source focus, Pro Search and model to select before submitting */
+  modes?: QueryModes;
+}
+
+/**
+ * Submit a prompt and return the answer with its sources
+ * @param page Page to drive
+ * @param prompt Prompt to type into the query box
+ * @param timeouts Navigation and answer timeouts
+ * @param options Thread to continue, cancellation and progress reporting
+ */
+export async function runQuery(
+  page: Page,
+  prompt: string,
+  timeouts: QueryTimeouts,
+  options: QueryOptions = {}
+): Promise<RawAnswer> {
+  const { threadUrl, signal, progress, modes } = options;
+
+  progress?.phase('navigating');
+  logDebug(`Navigating to ${threadUrl ?? PERPLEXITY_URL}`);
+  await navigate(page, threadUrl ?? PERPLEXITY_URL, timeouts.navigation, signal);
+
+  const inputSelector = await findSelector(page, SELECTORS.queryInput, timeouts.navigation, signal);
+  const { count: previousCount } = await page.evaluate(readAnswerState, SELECTORS);
+  if (modes) {
+    await applyQueryModes(page, modes, signal);
+  }
+  throwIfCancelled(signal);
+  logDebug(`Typing prompt into ${inputSelector}`);
+  await page.click(inputSelector);
+  // A typed "\n" is an Enter key press, which would submit the prompt early
+  const lines = prompt.split('\n');
+  for (const [i, line] of lines.entries()) {
+    if (i > 0) {
+      await page.keyboard.down('Shift');
+      await page.keyboard.press('Enter');
+      await page.keyboard.up('Shift');
+    }
+    if (line) await page.type(inputSelector, line);
+    throwIfCancelled(signal);
+  }
+  await page.keyboard.press('Enter');
+
+  progress?.phase('waiting');
+  logInfo('Query submitted, waiting for answer');
+  await waitForAnswer(page, timeouts.answer, previousCount, { signal, progress });
+
+  progress?.phase('extracting');
+  const content = await page.evaluate(readAnswerContent, SELECTORS);
+  const html = cleanHtml(content.html, content.url);
+  return { ...content, html, text: htmlToMarkdown(html) };
+}
@@ -0,0 +1,243 @@
+import { existsSync, readFileSync } from 'fs';
+import { join } from 'path';
+import { parse as parseYaml } from 'yaml';
+import { logDebug } from './logging.js';
+import type { ResolvedVersion } from './types.js';
+
+// ─── PROJECT VERSIONS ──────────────────────────────────────────────────
+// Finds the version of a package a project actually uses, so documentation
+// can be asked for that version instead of whatever is newest. Lockfiles
+// are read before manifests because they pin the exact installed version;
+// manifests usually only declare a range.
+
+/**
+ * Package name to version entries read from one project file
+ */
+type VersionEntries = Array<{ name: string; version: string; exact: boolean }>;
+
+/**
+ * Project files in lookup order, with their readers
+ */
+const PROJECT_FILES: Array<{ file: string; read: (content: string) => VersionEntries }> = [
+  { file: 'package-lock.json', read: readPackageLock },
+  { file: 'yarn.lock', read: readYarnLock },
+  { file: 'pnpm-lock.yaml', read: readPnpmLock },
+  { file: 'package.json', read: readPackageJson },
+  { file: 'requirements.txt', read: readRequirements },
+  { file: 'go.mod', read: readGoMod },
+  { file: 'Cargo.lock', read: readCargoLock },
+  { file: 'Cargo.toml', read: readCargoToml },
+];
+
+/**
+ * Whether a declared version is a plain version rather than a range
+ */
+function isExactVersion(version: string): boolean {
+  return /^v?\d+(\.\d+)*([-+][\w.-]+)?$/.test(version);
+}
+
+function readPackageLock(content: string): VersionEntries {
+  const lock = JSON.parse(content) as {
+    packages?: Record<string, { version?: string }>;
+    dependencies?: Record<string, { version?: string }>;
+  };
+  const entries: VersionEntries = [];
+  for (const [path, info] of Object.entries(lock.packages ?? {})) {
+    // Only top-level installs; nested ones belong to other packages
+    const match = path.match(/^node_modules\/((?:@[^/]+\/)?[^/]+)$/);
+    if (match && info.version) entries.push({ name: match[1], version: info.version, exact: true });
+  }
+  // lockfileVersion 1
+  for (const [name, info] of Object.entries(lock.dependencies ?? {})) {
+    if (info.version) entries.push({ name, version: info.version, exact: true });
+  }
+  return entries;
+}
+
+function readYarnLock(content: string): VersionEntries {
+  const entries: VersionEntries = [];
+  let names: string[] = [];
+  for (const line of content.split(/\r?\n/)) {
+    if (/^\S.*:$/.test(line) && !line.startsWith('#')) {
+      // e.g. `react@^18.2.0, "react@npm:^18.0.0":`
+      names = line.slice(0, -1).split(',').map((spec) => {
+        const unquoted = spec.trim().replace(/^"|"$/g, '');
+        return unquoted.slice(0, unquoted.indexOf('@', 1));
+      }).filter(Boolean);
+      continue;
+    }
+    const version = line.match(/^\s+version:?\s+"?([^"\s]+)"?/);
+    if (version && names.length > 0) {
+      for (const name of new Set(names)) entries.push({ name, version: version[1], exact: true });
+      names = [];
+    }
+  }
+  return entries;
+}
+
+function readPnpmLock(content: string): VersionEntries {
+  type Dependencies = Record<string, string | { version?: string }>;
+  const lock = parseYaml(content) as {
+    importers?: Record<string, Record<string, Dependencies>>;
+    dependencies?: Dependencies;
+    devDependencies?: Dependencies;
+  };
+  const groups = [
+    ...Object.values(lock.importers?.['.'] ?? {}),
+    lock.dependencies ?? {},
+    lock.devDependencies ?? {},
+  ];
+  const entries: VersionEntries = [];
+  for (const group of groups) {
+    if (typeof group !== 'object' || group === null) continue;
+    for (const [name, info] of Object.entries(group)) {
+      const raw = typeof info === 'string' ? info : info?.version;
+      // Peer suffixes such as "18.2.0(react@18.2.0)" are not part of the version
+      const version = raw?.replace(/\(.*$/, '').replace(/_.*$/, '');
+      if (version && isExactVersion(version)) entries.push({ name, version, exact: true });
+    }
+  }
+  return entries;
+}
+
+function readPackageJson(content: string): VersionEntries {
+  const manifest = JSON.parse(content) as Record<string, Record<string, string> | undefined>;
+  const entries: VersionEntries = [];
+  for (const field of ['dependencies', 'devDependencies', 'peerDependencies', 'optionalDependencies']) {
+    for (const [name, version] of Object.entries(manifest[field] ?? {})) {
+      if (typeof version === 'string') entries.push({ name, version, exact: isExactVersion(version) });
+    }
+  }
+  return entries;
+}
+
+function readRequirements(content: string): VersionEntries {
+  const entries: VersionEntries = [];
+  for (const rawLine of content.split(/\r?\n/)) {
+    const line = rawLine.replace(/\s+#.*$/, '').trim();
+    if (!line || line.startsWith('#') || line.startsWith('-')) continue;
+    const match = line.match(/^([A-Za-z0-9][\w.-]*)(?:\[[^\]]*\])?\s*(===?|~=|>=|<=|!=|>|<)?\s*([^;,\s]*)/);
+    if (!match) continue;
+    const [, name, operator, version] = match;
+    entries.push({
+      name,
+      version: operator ? `${operator === '==' || operator === '===' ? '' : operator}${version}` : '*',
+      exact: operator === '==' || operator === '===',
+    });
+  }
+  return entries;
+}
+
+function readGoMod(content: string): VersionEntries {
+  const entries: VersionEntries = [];
+  let inRequireBlock = false;
+  for (const rawLine of content.split(/\r?\n/)) {
+    const line = rawLine.replace(/\/\/.*$/, '').trim();
+    if (/^require\s*\($/.test(line)) {
+      inRequireBlock = true;
+      continue;
+    }
+    if (inRequireBlock && line === ')') {
+      inRequireBlock = false;
+      continue;
+    }
+    const match = (inRequireBlock ? line : line.replace(/^require\s+/, '')).match(/^(\S+\.\S+)\s+(v\S+)$/);
+    if (match && (inRequireBlock || line.startsWith('require'))) {
+      entries.push({ name: match[1], version: match[2], exact: true });
+    }
+  }
+  return entries;
+}
+
+function readCargoLock(content: string): VersionEntries {
+  const entries: VersionEntries = [];
+  for (const block of content.split(/^\[\[package\]\]\s*$/m).slice(1)) {
+    const name = block.match(/^name\s*=\s*"([^"]+)"/m);
+    const version = block.match(/^version\s*=\s*"([^"]+)"/m);
+    if (name && version) entries.push({ name: name[1], version: version[1], exact: true });
+  }
+  return entries;
+}
+
+function readCargoToml(content: string): VersionEntries {
+  const entries: VersionEntries = [];
+  let inDependencies = false;
+  for (const rawLine of content.split(/\r?\n/)) {
+    const line = rawLine.replace(/\s+#.*$/, '').trim();
+    const table = line.match(/^\[(.+)\]$/);
+    if (table) {
+      inDependencies = /(^|\.)(dev-|build-)?dependencies$/.test(table[1]);
+      continue;
+    }
+    if (!inDependencies) continue;
+    const match = line.match(/^([\w-]+)\s*=\s*(?:"([^"]+)"|\{.*?\bversion\s*=\s*"([^"]+)".*\})/);
+    if (match) {
+      const version = match[2] ?? match[3];
+      // Cargo treats a bare "1.2.3" as "^1.2.3"
+      entries.push({ name: match[1], version, exact: version.startsWith('=') });
+    }
+  }
+  return entries;
+}
+
+/**
+ * Normalize a package name for comparison: case folded, with runs of
+ * "-", "_" and "." treated alike (as Python does) and a ".js" suffix dropped
+ */
+function normalizeName(name: string): string {
+  return name.toLowerCase().replace(/\.js$/, '').replace(/[-_.\s]+/g, '-');
+}
+
+/**
+ * How well a package name matches a technology: 2 when it is the package
+ * itself, 1 when it is a name the technology may be published under
+ * ("React Router 6" matches react-router, "Next.js" matches next, a scoped
+ * package its unscoped name, and a Go module its last path segment), 0
+ * otherwise. Type packages (@types/*) only match when asked for by name.
+ */
+function matchTechnology(name: string, technology: string): number {
+  const wanted = normalizeName(technology.trim().replace(/\s+v?\d[\w.]*$/, ''));
+  if (normalizeName(name) === wanted) return 2;
+  if (name.startsWith('@types/')) return 0;
+
+  const candidates = [
+    name.replace(/^@[^/]+\//, ''),
+    name.replace(/\/v\d+$/, '').split('/').pop() ?? name,
+  ];
+  return candidates.some((candidate) => normalizeName(candidate) === wanted) ? 1 : 0;
+}
+
+/**
+ * Find the version of a technology used by a project
+ * @param projectPath Directory holding the project files
+ * @param technology Package or technology name as given by the caller
+ * @returns The version, or null when no project file mentions the package
+ */
+export function resolveProjectVersion(projectPath: string, technology: string): ResolvedVersion | null {
+  for (const { file, read } of PROJECT_FILES) {
+    const path = join(projectPath, file);
+    if (!existsSync(path)) continue;
+
+    let entries: VersionEntries;
+    try {
+      entries = read(readFileSync(path, 'utf8'));
+    } catch (error) {
+      logDebug(`Could not read ${path}`, error);
+      continue;
+    }
+    // Lockfiles are sorted, so a scoped namesake may come before the package itself
+    let entry: VersionEntries[number] | undefined;
+    let bestMatch = 0;
+    for (const candidate of entries) {
+      const match = matchTechnology(candidate.name, technology);
+      if (match > bestMatch) {
+        entry = candidate;
+        bestMatch = match;
+      }
+    }
+    if (entry) {
+      return { package: entry.name, version: entry.version.replace(/^=/, ''), exact: entry.exact, source: file };
+    }
+  }
+  return null;
+}
@@ -0,0 +1,125 @@
+import type { GetPromptResult } from '@modelcontextprotocol/sdk/types.js';
+import { InvalidInputError } from './errors.js';
+import type { PromptDefinition } from './types.js';
+
+// ─── PROMPT TEMPLATES ──────────────────────────────────────────────────
+/**
+ * Prompts advertised through `prompts/list`. Each one asks the client's
+ * model to carry out a task with this server's tools.
+ */
+export const PROMPT_DEFINITIONS: PromptDefinition[] = [
+  {
+    name: 'research_library_upgrade',
+    description: 'Plan the upgrade of a library: breaking changes, migration steps and affected code, with sources',
+    arguments: [
+      { name: 'library', description: 'Library or framework to upgrade, e.g. "react"', required: true },
+      { name: 'to_version', description: 'Target version; the latest release when omitted' },
+      { name: 'from_version', description: 'Current version; read from project_path when omitted' },
+      { name: 'project_path', description: 'Project directory on the server machine holding the lockfile or manifest' },
+    ],
+  },
+  {
+    name: 'audit_deprecations',
+    description: 'Audit a code snippet for deprecated APIs and propose the replacements',
+    arguments: [
+      { name: 'code', description: 'Code to audit', required: true },
+      { name: 'context', description: 'Technology and version to check against, e.g. "React 18" or "Node.js 20"', required: true },
+    ],
+  },
+  {
+    name: 'compare_apis',
+    description: 'Shortlist and compare third-party APIs for a requirement, checking the leaders against their own documentation',
+    arguments: [
+      { name: 'requirements', description: 'What the API must do', required: true },
+      { name: 'language', description: 'Language an SDK must exist for' },
+      { name: 'constraints', description: 'Other constraints, e.g. "free tier" or "self-hosted"' },
+    ],
+  },
+];
+
+/**
+ * Look up a prompt definition by name
+ * @param name Prompt name from the `prompts/get` request
+ * @returns The matching definition, or undefined for unknown prompts
+ */
+export function getPromptDefinition(name: string): PromptDefinition | undefined {
+  return PROMPT_DEFINITIONS.find((prompt) => prompt.name === name);
+}
+
+/**
+ * Fill in a prompt template
+ * @param definition Prompt to render
+ * @param args Arguments from the `prompts/get` request
+ * @throws InvalidInputError when a required argument is missing or empty
+ */
+export function renderPrompt(definition: PromptDefinition, args: Record<string, string> = {}): GetPromptResult {
+  const values: Record<string, string> = {};
+  const missing: string[] = [];
+  for (const argument of definition.arguments) {
+    // Leading spaces are kept: they may be the indentation of a code argument
+    const value = args[argument.name]?.replace(/^\s*\n|\s+$/g, '');
+    if (value?.trim()) values[argument.name] = value;
+    else if (argument.required) missing.push(argument.name);
+  }
+  if (missing.length > 0) {
+    throw new InvalidInputError(
+      `Missing arguments for prompt ${definition.name}: ${missing.join(', ')}`,
+      { errors: missing.map((field) => ({ field, message: 'is required' })) }
+    );
+  }
+
+  return {
+    description: definition.description,
+    messages: [{ role: 'user', content: { type: 'text', text: promptText(definition.name, values) } }],
+  };
+}
+
+/**
+ * Text of a prompt with its arguments filled in
+ */
+function promptText(name: string, values: Record<string, string>): string {
+  switch (name) {
+    case 'research_library_upgrade': {
+      const { library, to_version, from_version, project_path } = values;
+      const target = to_version ? `${library} ${to_version}` : `${library} (latest release)`;
+      const from = from_version ? ` from ${from_version}` : project_path ? ' from the version installed in the project' : '';
+      return [
+        `Help me upgrade ${library}${from} to ${to_version ?? 'the latest release'}. Use the Perplexity tools:`,
+        '',
+        `1. Call \`get_documentation\` with technology "${library}"${to_version ? `, version "${to_version}"` : ''} and context "migration guide and breaking changes"${project_path ? `. Also call it with project_path "${project_path}" to learn the installed version` : ''}.`,
+        `2. Call \`deep_research\` with the question "What breaks when upgrading ${library}${from_version ? ` from ${from_version}` : ''} to ${to_version ?? 'its latest release'}, and how is each change migrated?".`,
+        `3. For code that uses ${library}, call \`check_deprecated_code\` with context "${target}".`,
+        '',
+        'Then write an upgrade plan: the breaking changes and the code each one affects, the replacement for every removed or deprecated API, the order of the steps, and the sources behind each point as [n] citations.',
+      ].join('\n');
+    }
+    case 'audit_deprecations': {
+      const { code, context } = values;
+      const fence = '`'.repeat(Math.max(3, ...(code.match(/`+/g) ?? []).map((run) => run.length + 1)));
+      return [
+        `Audit the code below for APIs that are deprecated or removed in ${context}.`,
+        '',
+        `1. Call \`check_deprecated_code\` with this code and context "${context}".`,
+        '2. When a finding has no clear replacement, call `get_documentation` for the API in question.',
+        '',
+        'Report the findings as a table (line, API, why it is deprecated, replacement, source), then give the corrected code. Say so plainly if nothing is deprecated.',
+        '',
+        `${fence}\n${code}\n${fence}`,
+      ].join('\n');
+    }
+    case 'compare_apis': {
+      const { requirements, language, constraints } = values;
+      return [
+        `Find the best third-party API for this requirement: ${requirements}`,
+        ...(constraints ? [`Constraints: ${constraints}`] : []),
+        '',
+        `1. Call \`find_apis\` with these requirements${language ? ` and language "${language}"` : ''}, setting \`free\` or \`self_hostable\` when the constraints ask for them.`,
+        '2. For the two best-ranked candidates, call `fetch_url_content` on their `docs_url` to confirm pricing, rate limits and authentication.',
+        '',
+        'Recommend one API, explain the choice against the runner-up, and point out anything the documentation contradicted in the comparison.',
+      ].join('\n');
+    }
+    default:
+      throw new InvalidInputError(`Unknown prompt: ${name}`);
+  }
+}
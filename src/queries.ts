@@ -0,0 +1,152 @@
+import type { ChatMessage, SearchFocus } from './types.js';
+
+// ─── QUERY TEMPLATES ───────────────────────────────────────────────────
+// Prompts typed into Perplexity for each tool.
+
+/**
+ * Shape the prompt submitted to Perplexity according to the requested focus
+ * @param query User query
+ * @param focus Desired answer length
+ */
+export function buildSearchPrompt(query: string, focus: SearchFocus): string {
+  switch (focus) {
+    case 'brief':
+      return `Answer briefly, in a few sentences: ${query}`;
+    case 'detailed':
+      return `Provide a detailed, comprehensive answer with examples and explanations: ${query}`;
+    case 'normal':
+    default:
+      return query;
+  }
+}
+
+/**
+ * Build the prompt for a documentation request
+ * @param technology Technology, library or tool
+ * @param context Optional functionality to focus on
+ * @param version Optional version or version range the answer must describe
+ */
+export function buildDocumentationPrompt(technology: string, context?: string, version?: string): string {
+  return [
+    `Provide comprehensive documentation for ${technology}${version ? ` version ${version}` : ''}${context ? `, focusing on ${context}` : ''}.`,
+    version ? 'Only describe APIs available in that version and point out where it differs from the latest release.' : '',
+    'Start with a short overview, then use a Markdown heading for each key concept or API,',
+    'with code examples in fenced code blocks that name their language. Cite the official documentation pages.',
+  ].filter(Boolean).join(' ');
+}
+
+/**
+ * Build the prompt for an API discovery request
+ * @param requirements What the API needs to do
+ * @param context Optional additional constraints
+ * @param filters Hard requirements the candidates must meet
+ */
+export function buildFindApisPrompt(
+  requirements: string,
+  context?: string,
+  filters: { free?: boolean; language?: string; self_hostable?: boolean } = {}
+): string {
+  const constraints = [
+    filters.free ? 'offer a free tier' : '',
+    filters.language ? `have an official SDK or client library for ${filters.language}` : '',
+    filters.self_hostable ? 'be self-hostable' : '',
+  ].filter(Boolean);
+  return [
+    `Find and evaluate APIs that meet these requirements: ${requirements}.`,
+    context ? `Additional context: ${context}.` : '',
+    constraints.length > 0 ? `Every candidate must ${constraints.join(', and ')}.` : '',
+    'Answer only with a JSON array of up to 8 candidates, best fit first. Each element must have',
+    '"name", "provider", "docs_url", "auth_method", "pricing_model", "free_tier" (true or false),',
+    '"free_tier_details", "rate_limits", "sdk_languages" (array of language names), "self_hostable" (true or false),',
+    '"maturity" (stability, adoption and caveats), "fit" (1 to 10, how well it meets the requirements)',
+    'and "sources" (array of URLs backing the details).',
+  ].filter(Boolean).join(' ');
+}
+
+/**
+ * Build the prompt asking which of the APIs used by a snippet are deprecated
+ * @param context Technology and version the code targets, e.g. "React 18"
+ * @param apis Bulleted list of the imported modules and called APIs
+ */
+export function buildDeprecationPrompt(context: string, apis: string): string {
+  return [
+    `Which of the following APIs are deprecated, removed or discouraged in ${context}?`,
+    '',
+    apis,
+    '',
+    'Answer only with a JSON array of the deprecated ones. Each element must have "symbol" (exactly as listed),',
+    '"why" (what changed and since which version), "replacement" (what to use instead) and',
+    '"source" (URL of the official documentation or changelog). Answer [] if none is deprecated.',
+  ].join('\n');
+}
+
+/**
+ * Build the prompt splitting a research question into search queries
+ * @param question Question to research
+ * @param count Maximum number of queries
+ * @param previous Queries already answered, when asking for follow-ups
+ */
+export function buildResearchPlanPrompt(question: string, count: number, previous: string[] = []): string {
+  return [
+    `I am researching this question: ${question}`,
+    previous.length > 0
+      ? `These searches have been done already: ${previous.map((query) => `"${query}"`).join('; ')}. ` +
+        `List up to ${count} follow-up web searches that fill the most important remaining gaps.`
+      : `Break it down into up to ${count} focused web searches that together cover it.`,
+    'Answer only with a JSON array of the search queries as strings.',
+  ].join(' ');
+}
+
+/**
+ * Build the prompt turning the findings of the sub-queries into a report
+ * @param question Question being researched
+ * @param findings Sub-answers with citation markers numbered across all of them
+ */
+export function buildResearchReportPrompt(question: string, findings: string): string {
+  return [
+    `Write a research report answering: ${question}`,
+    '',
+    'Use only the findings below and do not search the web. Start with a short summary,',
+    'organize the rest in Markdown sections with headings, and end with trade-offs or open questions.',
+    'After every claim keep the citation markers such as [3] of the findings it comes from;',
+    'do not invent new markers and do not add a list of sources.',
+    '',
+    'Findings:',
+    '',
+    findings,
+  ].join('\n');
+}
+
+/**
+ * Maximum number of characters of prior conversation replayed in a follow-up
+ */
+export const CHAT_CONTEXT_MAX_CHARS = 6000;
+
+/**
+ * Build a follow-up prompt that carries the earlier turns of a conversation,
+ * used when the original Perplexity thread cannot be reopened. The most
+ * recent turns are kept when the history exceeds CHAT_CONTEXT_MAX_CHARS.
+ * @param history Earlier turns, oldest first
+ * @param message New user message
+ */
+export function buildChatPrompt(history: ChatMessage[], message: string): string {
+  if (history.length === 0) return message;
+
+  const turns: string[] = [];
+  let length = 0;
+  for (let i = history.length - 1; i >= 0; i--) {
+    const turn = `${history[i].role === 'user' ? 'User' : 'Assistant'}: ${history[i].content}`;
+    if (length + turn.length > CHAT_CONTEXT_MAX_CHARS) break;
+    turns.unshift(turn);
+    length += turn.length;
+  }
+
+  return [
+    'Continue the following conversation.',
+    '',
+    'Previous conversation:',
+    turns.join('\n\n'),
+    '',
+    `User: ${message}`,
+  ].join('\n');
+}
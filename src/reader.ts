@@ -0,0 +1,222 @@
+import { TimeoutError, type Page } from 'puppeteer';
+import { cleanHtml, htmlToMarkdown } from './markdown.js';
+import { FetchFailedError, FetchTimeoutError } from './errors.js';
+import { throwIfCancelled, type ProgressReporter } from './operation.js';
+import type { GitHubEntry, PageContent } from './types.js';
+
+// ─── PAGE READER ───────────────────────────────────────────────────────
+// Loads an arbitrary page and extracts its main content as Markdown with
+// navigation and other boilerplate removed. GitHub repository pages are
+// read as their README plus the file listing. The extraction runs through
+// `page.evaluate`, so it is a single self-contained function; the HTML it
+// returns is converted by markdown.ts.
+
+/**
+ * What readPageContent returns from the browser
+ */
+interface RawPageContent {
+  title: string;
+  canonicalUrl: string;
+  /** URL relative links in the content resolve against */
+  baseUrl: string;
+  /** Main content with boilerplate removed, converted outside the browser */
+  html: string;
+  text: string;
+  github?: {
+    files: GitHubEntry[];
+    hasReadme: boolean;
+  };
+}
+
+/**
+ * Owner and name of a GitHub repository root or directory URL
+ * (`/owner/repo` or `/owner/repo/tree/...`), or null for any other page
+ */
+export function gitHubRepository(url: string): string | null {
+  let parsed: URL;
+  try {
+    parsed = new URL(url);
+  } catch {
+    return null;
+  }
+  if (parsed.hostname !== 'github.com') return null;
+  const match = parsed.pathname.match(/^\/([\w.-]+)\/([\w.-]+)(?:\/tree\/.*)?\/?$/);
+  return match ? `${match[1]}/${match[2]}` : null;
+}
+
+/**
+ * Runs in the browser: find the main content and strip boilerplate
+ * @param githubRepo Read the page as a GitHub repository (README and files)
+ */
+export function readPageContent(githubRepo: boolean): RawPageContent {
+  const BOILERPLATE_TAGS = 'script, style, noscript, template, iframe, svg, canvas, form, button, input, select, nav, header, footer, aside';
+  const BOILERPLATE_ROLES = '[role="navigation"], [role="banner"], [role="contentinfo"], [role="complementary"], [role="search"], [aria-hidden="true"]';
+  const BOILERPLATE_NAMES = /(^|[\s_-])(comments?|sidebar|footer|navbar|nav|menu|breadcrumbs?|cookie|consent|banner|advert|ads?|share|social|related|subscribe|newsletter|popup|modal|promo)([\s_-]|$)/i;
+
+  function absolute(href: string): string {
+    try {
+      return new URL(href, document.baseURI).href;
+    } catch {
+      return href;
+    }
+  }
+
+  function clean(root: Element): Element {
+    const clone = root.cloneNode(true) as Element;
+    clone.querySelectorAll(`${BOILERPLATE_TAGS}, ${BOILERPLATE_ROLES}`).forEach((element) => element.remove());
+    clone.querySelectorAll('[class], [id]').forEach((element) => {
+      const names = `${element.getAttribute('class') || ''} ${element.id}`;
+      if (BOILERPLATE_NAMES.test(names) && !element.querySelector('h1, article')) element.remove();
+    });
+    return clone;
+  }
+
+  /** Element holding the most paragraph text, preferring semantic containers */
+  function mainContent(): Element {
+    const semantic = Array.from(document.querySelectorAll('article, main, [role="main"]'));
+    const textLength = (element: Element) => (element.textContent || '').trim().length;
+    if (semantic.length > 0) {
+      return semantic.sort((a, b) => textLength(b) - textLength(a))[0];
+    }
+
+    const scores = new Map<Element, number>();
+    document.querySelectorAll('p, pre, li').forEach((block) => {
+      const length = textLength(block);
+      if (length < 25) return;
+      let parent = block.parentElement;
+      for (let level = 0; parent && level < 3; level++, parent = parent.parentElement) {
+        scores.set(parent, (scores.get(parent) || 0) + length / (level + 1));
+      }
+    });
+    let best: Element = document.body;
+    let bestScore = 0;
+    scores.forEach((score, element) => {
+      if (score > bestScore) {
+        best = element;
+        bestScore = score;
+      }
+    });
+    return best;
+  }
+
+  function contentOf(root: Element): { html: string; text: string } {
+    const cleaned = clean(root);
+    return { html: cleaned.innerHTML, text: cleaned.textContent || '' };
+  }
+
+  const canonical = document.querySelector('link[rel="canonical"]')?.getAttribute('href');
+  const ogTitle = document.querySelector('meta[property="og:title"]')?.getAttribute('content');
+  const result: RawPageContent = {
+    title: (ogTitle || document.title || '').trim(),
+    canonicalUrl: canonical ? absolute(canonical) : window.location.href,
+    baseUrl: document.baseURI,
+    html: '',
+    text: '',
+  };
+
+  if (githubRepo) {
+    const readme = document.querySelector('article.markdown-body');
+    const rows = Array.from(document.querySelectorAll<HTMLAnchorElement>(
+      'table[aria-labelledby="folders-and-files"] a.Link--primary, [role="rowheader"] a'
+    ));
+    const seen = new Set<string>();
+    const files: GitHubEntry[] = [];
+    for (const link of rows) {
+      const name = (link.textContent || '').trim();
+      if (!name || seen.has(name)) continue;
+      seen.add(name);
+      files.push({ name, type: link.href.includes('/tree/') ? 'dir' : 'file', url: link.href });
+    }
+    // Paths like /features/actions look like repositories but are not
+    if (readme || files.length > 0) {
+      const content = readme ? contentOf(readme) : { html: '', text: '' };
+      result.html = content.html;
+      result.text = content.text;
+      result.github = { files, hasReadme: Boolean(readme) };
+      return result;
+    }
+  }
+
+  const content = contentOf(mainContent());
+  result.html = content.html;
+  result.text = content.text;
+  return result;
+}
+
+/**
+ * Cut Markdown to at most `maxLength` characters, preferring to end at a
+ * paragraph boundary
+ */
+export function truncateMarkdown(markdown: string, maxLength: number): { markdown: string; truncated: boolean } {
+  if (markdown.length <= maxLength) return { markdown, truncated: false };
+  const cut = markdown.slice(0, maxLength);
+  const boundary = cut.lastIndexOf('\n\n');
+  // Do not throw away more than a fifth of the allowance to find a boundary
+  return { markdown: boundary > maxLength * 0.8 ? cut.slice(0, boundary) : cut, truncated: true };
+}
+
+/**
+ * Load a third-party page. Unlike Perplexity navigation, a 429 or a
+ * challenge page is not treated as throttling: any HTTP error status fails
+ * the load, and the status is reported.
+ * @returns HTTP status of the final response, or null when there was none
+ * @throws FetchTimeoutError when the page does not load in time
+ * @throws FetchFailedError on a network error or an HTTP error status
+ */
+async function loadPage(page: Page, url: string, timeout: number): Promise<number | null> {
+  let response;
+  try {
+    response = await page.goto(url, { waitUntil: 'domcontentloaded', timeout });
+  } catch (error) {
+    if (error instanceof TimeoutError) {
+      throw new FetchTimeoutError(`Loading ${url} timed out after ${timeout}ms`, { url, timeout_ms: timeout });
+    }
+    // DNS, connection and TLS failures; anything else (e.g. a crashed browser) is left to withPage
+    if (error instanceof Error && error.message.startsWith('net::ERR_')) {
+      throw new FetchFailedError(`Could not load ${url}: ${error.message.split(' at ')[0]}`, { url });
+    }
+    throw error;
+  }
+
+  const status = response?.status() ?? null;
+  if (status !== null && status >= 400) {
+    throw new FetchFailedError(`${url} answered with HTTP ${status} ${response?.statusText() ?? ''}`.trim(), { url, status });
+  }
+  return status;
+}
+
+/**
+ * Load a URL and extract its readable content
+ * @param page Pooled page to load the URL in
+ * @param url Page to read
+ * @param options Navigation timeout, maximum Markdown length, cancellation and progress
+ */
+export async function fetchPageContent(
+  page: Page,
+  url: string,
+  options: { timeout: number; maxLength: number; signal?: AbortSignal; progress?: ProgressReporter }
+): Promise<PageContent> {
+  options.progress?.phase('navigating');
+  const status = await loadPage(page, url, options.timeout);
+  throwIfCancelled(options.signal);
+
+  options.progress?.phase('extracting');
+  const repository = gitHubRepository(page.url());
+  const raw = await page.evaluate(readPageContent, repository !== null);
+  const full = htmlToMarkdown(cleanHtml(raw.html, raw.baseUrl));
+  const { markdown, truncated } = truncateMarkdown(full, options.maxLength);
+
+  return {
+    url: page.url(),
+    status,
+    canonical_url: raw.canonicalUrl,
+    title: raw.title,
+    markdown,
+    word_count: raw.text.split(/\s+/).filter(Boolean).length,
+    truncated,
+    total_length: full.length,
+    ...(repository && raw.github
+      ? { github: { repository, has_readme: raw.github.hasReadme, files: raw.github.files } }
+      : {}),
+  };
+}
@@ -0,0 +1,181 @@
+import type { HTTPRequest, Page, ResourceType } from 'puppeteer';
+import { logDebug } from './logging.js';
+
+// ─── REQUEST BLOCKING ──────────────────────────────────────────────────
+// Perplexity pages pull images, fonts, video and analytics we never read.
+// Aborting those requests makes navigation faster and less likely to time
+// out. Requests are intercepted so they can be judged by the resource type
+// Chrome reports: a URL does not tell an image or font endpoint such as
+// `/_next/image?url=…` apart from anything else. Documents and scripts are
+// never blocked by type, and bot-protection endpoints are never blocked at
+// all, so the page and its challenges keep working.
+
+/**
+ * What to block
+ */
+export interface RequestBlockingOptions {
+  enabled: boolean;
+  /** Puppeteer resource types to abort, e.g. "image" or "font" */
+  resourceTypes: string[];
+  /** URL patterns to abort, `*` matching any characters */
+  urlPatterns: string[];
+}
+
+/**
+ * Every resource type puppeteer reports, for validating configuration
+ */
+export const RESOURCE_TYPES: ResourceType[] = [
+  'document', 'stylesheet', 'image', 'media', 'font', 'script', 'texttrack', 'xhr', 'fetch',
+  'prefetch', 'eventsource', 'websocket', 'manifest', 'signedexchange', 'ping', 'cspviolationreport',
+  'preflight', 'other',
+];
+
+/**
+ * Safe default blocklist
+ */
+export const DEFAULT_BLOCKED_RESOURCE_TYPES = ['image', 'media', 'font'];
+export const DEFAULT_BLOCKED_URL_PATTERNS = [
+  '*google-analytics.com*',
+  '*googletagmanager.com*',
+  '*doubleclick.net*',
+  '*facebook.net*',
+  '*segment.io*',
+  '*segment.com/v1*',
+  '*mixpanel.com*',
+  '*amplitude.com*',
+  '*hotjar.com*',
+  '*intercom.io*',
+  '*datadoghq.com*',
+  '*singular.net*',
+];
+
+/**
+ * Requests that are never blocked, whatever the configuration says
+ */
+const NEVER_BLOCKED = [
+  /^https?:\/\/challenges\.cloudflare\.com\//,
+  /\/cdn-cgi\/challenge-platform\//,
+  /^https?:\/\/[^/]*(hcaptcha\.com|recaptcha\.net|google\.com\/recaptcha)/,
+];
+
+/**
+ * Typical transfer size per resource type, used to estimate the bytes a
+ * blocked request would have cost (its real size is never known)
+ */
+const ESTIMATED_BYTES: Partial<Record<ResourceType, number>> = {
+  image: 40 * 1024,
+  media: 500 * 1024,
+  font: 50 * 1024,
+  stylesheet: 30 * 1024,
+  script: 60 * 1024,
+};
+const ESTIMATED_BYTES_OTHER = 5 * 1024;
+
+/**
+ * Blocked requests, by resource type, and the estimated bytes saved
+ */
+export interface BlockStats {
+  blocked: number;
+  byType: Record<string, number>;
+  estimatedBytes: number;
+}
+
+function emptyStats(): BlockStats {
+  return { blocked: 0, byType: {}, estimatedBytes: 0 };
+}
+
+/**
+ * Compile a `*` wildcard pattern into a regular expression
+ */
+function toRegExp(pattern: string): RegExp {
+  const escaped = pattern.replace(/[.+?^${}()|[\]\\]/g, '\\$&').replace(/\*/g, '.*');
+  return new RegExp(`^${escaped}$`, 'i');
+}
+
+/**
+ * Format a byte count for logs
+ */
+export function formatBytes(bytes: number): string {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  return `${(bytes / 1024 / 1024).toFixed(1)} MB`;
+}
+
+/**
+ * Aborts unwanted requests on the pages it is attached to and counts them
+ */
+export class RequestBlocker {
+  private resourceTypes: Set<string>;
+  private urlPatterns: RegExp[];
+  private pageStats = new WeakMap<Page, BlockStats>();
+  private total = emptyStats();
+
+  constructor(private options: RequestBlockingOptions) {
+    this.resourceTypes = new Set(options.resourceTypes);
+    this.urlPatterns = options.urlPatterns.map(toRegExp);
+  }
+
+  /**
+   * Enable request interception on a page
+   */
+  public async attach(page: Page): Promise<void> {
+    if (!this.options.enabled) return;
+
+    this.pageStats.set(page, emptyStats());
+    await page.setRequestInterception(true);
+    // Interception does not need the cache off; keep it on even where an
+    // older default would have disabled it
+    await page.setCacheEnabled(true);
+    page.on('request', (request) => this.handle(page, request));
+  }
+
+  /**
+   * Return the counters of a page since the previous call and reset them
+   */
+  public takeStats(page: Page): BlockStats {
+    const stats = this.pageStats.get(page) ?? emptyStats();
+    if (this.pageStats.has(page)) this.pageStats.set(page, emptyStats());
+    return stats;
+  }
+
+  /**
+   * Counters for every page since the server started
+   */
+  public totals(): BlockStats {
+    return { ...this.total, byType: { ...this.total.byType } };
+  }
+
+  /**
+   * Whether a request should be aborted
+   */
+  private shouldBlock(request: HTTPRequest): boolean {
+    const url = request.url();
+    if (url.startsWith('data:') || NEVER_BLOCKED.some((pattern) => pattern.test(url))) return false;
+
+    const type = request.resourceType();
+    // Blocking the navigation itself would break the page
+    if (type === 'document' && request.isNavigationRequest()) return false;
+
+    return this.resourceTypes.has(type) || this.urlPatterns.some((pattern) => pattern.test(url));
+  }
+
+  private handle(page: Page, request: HTTPRequest): void {
+    // Another handler (e.g. proxy authentication) may have resolved it
+    if (request.isInterceptResolutionHandled()) return;
+
+    if (!this.shouldBlock(request)) {
+      request.continue().catch((error) => logDebug('Failed to continue request', error));
+      return;
+    }
+
+    const type = request.resourceType();
+    const bytes = ESTIMATED_BYTES[type] ?? ESTIMATED_BYTES_OTHER;
+    for (const stats of [this.pageStats.get(page), this.total]) {
+      if (!stats) continue;
+      stats.blocked++;
+      stats.byType[type] = (stats.byType[type] ?? 0) + 1;
+      stats.estimatedBytes += bytes;
+    }
+    request.abort('blockedbyclient').catch((error) => logDebug('Failed to abort request', error));
+  }
+}
@@ -0,0 +1,252 @@
+import { STRUCTURED_ANSWER_SCHEMA, extractJsonArray } from './answer.js';
+import type { BibliographyEntry, StructuredAnswer } from './types.js';
+
+// ─── DEEP RESEARCH ─────────────────────────────────────────────────────
+// `deep_research` splits a question into search queries, answers them
+// through the `search` path, merges their sources into one numbered
+// bibliography and has the findings written up as a single report. The
+// helpers here hold the parts that do not touch the browser.
+
+/**
+ * Output schema of `deep_research`
+ */
+export const RESEARCH_REPORT_SCHEMA = {
+  ...STRUCTURED_ANSWER_SCHEMA,
+  properties: {
+    ...STRUCTURED_ANSWER_SCHEMA.properties,
+    sources: {
+      type: 'array',
+      description: 'Bibliography across all sub-queries, most cited first',
+      items: {
+        ...STRUCTURED_ANSWER_SCHEMA.properties.sources.items,
+        properties: {
+          ...STRUCTURED_ANSWER_SCHEMA.properties.sources.items.properties,
+          cited_by: { type: 'integer', description: 'Number of sub-answers citing the source' },
+        },
+      },
+    },
+    sub_queries: {
+      type: 'array',
+      items: {
+        type: 'object',
+        required: ['query', 'level', 'status'],
+        properties: {
+          query: { type: 'string' },
+          level: { type: 'integer' },
+          status: { type: 'string', enum: ['answered', 'failed', 'timed_out'] },
+          error: { type: 'string' },
+          answer: { type: 'string' },
+        },
+      },
+    },
+  },
+};
+
+/**
+ * Share of the time budget spent on sub-queries; the rest is kept for the report
+ */
+export const RESEARCH_SEARCH_SHARE = 0.75;
+
+/**
+ * Characters of findings passed to the report prompt, shared by the sub-answers
+ */
+export const RESEARCH_FINDINGS_CHARS = 8000;
+
+/**
+ * Read the search queries out of a planning answer
+ * @param answer Answer to buildResearchPlanPrompt
+ * @param max Maximum number of queries to keep
+ * @param exclude Queries already run, compared case-insensitively
+ * @returns The queries, or null when the answer holds no readable list
+ */
+export function parseResearchPlan(answer: StructuredAnswer, max: number, exclude: string[] = []): string[] | null {
+  const entries = extractJsonArray(answer);
+  if (!entries) return null;
+
+  const seen = new Set(exclude.map((query) => query.toLowerCase()));
+  const queries: string[] = [];
+  for (const entry of entries) {
+    const query = typeof entry === 'string' ? entry.replace(/\[\d+\]/g, '').trim() : '';
+    if (!query || seen.has(query.toLowerCase())) continue;
+    seen.add(query.toLowerCase());
+    queries.push(query);
+    if (queries.length >= max) break;
+  }
+  return queries;
+}
+
+/**
+ * Key identifying the same page across answers: fragment, trailing slash,
+ * "www." and tracking parameters are ignored
+ */
+function sourceKey(url: string): string {
+  try {
+    const parsed = new URL(url);
+    for (const name of [...parsed.searchParams.keys()]) {
+      if (/^(utm_\w+|ref|fbclid|gclid)$/.test(name)) parsed.searchParams.delete(name);
+    }
+    return `${parsed.hostname.replace(/^www\./, '').toLowerCase()}${parsed.pathname.replace(/\/$/, '')}${parsed.search}`;
+  } catch {
+    return url;
+  }
+}
+
+/**
+ * Sources of all sub-answers merged into one bibliography, and the
+ * renumbering of each sub-answer's markers into it
+ */
+export interface MergedSources {
+  bibliography: BibliographyEntry[];
+  /** Per sub-answer, its local source index to the bibliography index */
+  numbering: Array<Map<number, number>>;
+}
+
+/**
+ * Deduplicate the sources of several answers and rank them: sources cited
+ * by more sub-answers come first, then those listed by more, then the
+ * earliest seen
+ * @param answers Sub-answers, in the order they were asked
+ */
+export function mergeSources(answers: StructuredAnswer[]): MergedSources {
+  const merged = new Map<string, { entry: BibliographyEntry; listedBy: number; order: number }>();
+  const keysByAnswer = answers.map((answer) => {
+    const cited = new Set(answer.citations.map((citation) => citation.sourceIndex));
+    const keys = new Map<number, string>();
+    for (const source of answer.sources) {
+      const key = sourceKey(source.url);
+      keys.set(source.index, key);
+      let item = merged.get(key);
+      if (!item) {
+        item = { entry: { ...source, index: 0, cited_by: 0 }, listedBy: 0, order: merged.size };
+        merged.set(key, item);
+      }
+      item.listedBy++;
+      if (cited.has(source.index)) item.entry.cited_by++;
+    }
+    return keys;
+  });
+
+  const ranked = [...merged.values()].sort((a, b) =>
+    b.entry.cited_by - a.entry.cited_by || b.listedBy - a.listedBy || a.order - b.order
+  );
+  const indexOfKey = new Map<string, number>();
+  const bibliography = ranked.map((item, i) => {
+    indexOfKey.set(sourceKey(item.entry.url), i + 1);
+    return { ...item.entry, index: i + 1 };
+  });
+
+  const numbering = keysByAnswer.map((keys) => {
+    const map = new Map<number, number>();
+    keys.forEach((key, local) => map.set(local, indexOfKey.get(key)!));
+    return map;
+  });
+  return { bibliography, numbering };
+}
+
+/**
+ * Fenced code blocks and code spans of a Markdown text; an unclosed fence
+ * runs to the end of the text
+ */
+const MARKDOWN_CODE = /^ {0,3}(`{3,}|~{3,})[^\n]*\n[\s\S]*?(?:^ {0,3}\1[`~]*[ \t]*$|(?![\s\S]))|(`+)(?!`)[\s\S]*?(?<!`)\2(?!`)/gm;
+
+/**
+ * Replace the `[n]` citation markers of a Markdown text. Code is left
+ * alone, and so are indexes attached to an identifier, such as `xs[2]` or
+ * `grid[0][1]`: citation markers are never attached to a word.
+ * @param replace Returns the text that takes the place of a marker
+ */
+function replaceCitationMarkers(text: string, replace: (index: number, marker: string) => string): string {
+  const replaceInProse = (prose: string) =>
+    prose.replace(/([\w$]*)((?:\[\d+\])+)/g, (run: string, identifier: string, markers: string) =>
+      identifier ? run : markers.replace(/\[(\d+)\]/g, (marker, index: string) => replace(Number(index), marker))
+    );
+
+  let result = '';
+  let last = 0;
+  for (const match of text.matchAll(MARKDOWN_CODE)) {
+    result += replaceInProse(text.slice(last, match.index)) + match[0];
+    last = match.index + match[0].length;
+  }
+  return result + replaceInProse(text.slice(last));
+}
+
+/**
+ * Rewrite the `[n]` markers of a text with a new numbering. Markers
+ * without a mapping are removed.
+ */
+export function renumberCitations(text: string, numbering: Map<number, number>): string {
+  return replaceCitationMarkers(text, (local) => {
+    const global = numbering.get(local);
+    return global ? `[${global}]` : '';
+  });
+}
+
+/**
+ * Render the findings of the sub-queries for the report prompt, each cut to
+ * its share of RESEARCH_FINDINGS_CHARS
+ * @param findings Sub-queries and their renumbered answers
+ */
+export function formatFindings(findings: Array<{ query: string; answer: string }>): string {
+  const share = Math.floor(RESEARCH_FINDINGS_CHARS / Math.max(findings.length, 1));
+  return findings.map(({ query, answer }, i) => {
+    const text = answer.length > share ? `${answer.slice(0, share).replace(/\s+\S*$/, '')} …` : answer;
+    return `Finding ${i + 1} (search: ${query}):\n${text}`;
+  }).join('\n\n');
+}
+
+/**
+ * Report assembled from the sub-answers themselves, used when the written
+ * report is unavailable
+ */
+export function assembleReport(question: string, findings: Array<{ query: string; answer: string }>): string {
+  return [
+    `# ${question}`,
+    ...findings.map(({ query, answer }) => `## ${query}\n\n${answer.trim()}`),
+  ].join('\n\n');
+}
+
+/**
+ * Remove markers that do not point into the bibliography
+ * @returns The cleaned text and whether any valid marker remains
+ */
+export function checkReportCitations(text: string, bibliographySize: number): { text: string; cited: boolean } {
+  let cited = false;
+  const cleaned = replaceCitationMarkers(text, (index, marker) => {
+    const valid = index >= 1 && index <= bibliographySize;
+    cited ||= valid;
+    return valid ? marker : '';
+  });
+  return { text: cleaned, cited };
+}
+
+/**
+ * Render the bibliography as a numbered Markdown list
+ * @param subQueryCount Number of answered sub-queries, for the citation counts
+ */
+export function formatBibliography(bibliography: BibliographyEntry[], subQueryCount: number): string {
+  const lines = bibliography.map((entry) =>
+    `[${entry.index}] [${entry.title}](${entry.url}) (${entry.domain})` +
+    (entry.cited_by > 0 ? ` — cited by ${entry.cited_by} of ${subQueryCount} sub-answers` : '')
+  );
+  return `## Bibliography\n\n${lines.join('\n')}`;
+}
+
+/**
+ * Run tasks with at most `limit` of them in flight, keeping result order
+ */
+export async function mapWithConcurrency<T, R>(
+  items: T[],
+  limit: number,
+  task: (item: T, index: number) => Promise<R>
+): Promise<R[]> {
+  const results = new Array<R>(items.length);
+  let next = 0;
+  const worker = async () => {
+    while (next < items.length) {
+      const index = next++;
+      results[index] = await task(items[index], index);
+    }
+  };
+  await Promise.all(Array.from({ length: Math.min(limit, items.length) }, worker));
+  return results;
+}
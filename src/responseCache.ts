@@ -0,0 +1,144 @@
+import type Database from 'better-sqlite3';
+import crypto from 'crypto';
+import type { CacheToolStats, StructuredAnswer } from './types.js';
+
+// ─── RESPONSE CACHE ────────────────────────────────────────────────────
+
+/**
+ * Row shape of the `response_cache` table
+ */
+interface CacheRow {
+  key: string;
+  response: string;
+  created_at: number;
+  expires_at: number;
+}
+
+/**
+ * A cached answer together with its age
+ */
+export interface CacheEntry {
+  answer: StructuredAnswer;
+  createdAt: number;
+  ageSeconds: number;
+}
+
+/**
+ * Arguments that never take part in the cache key: cache control, and the
+ * output format, which is rendered from the cached answer
+ */
+const IGNORED_ARGUMENTS = new Set(['cache', 'format']);
+
+/**
+ * Normalize arguments so equivalent calls share a cache entry: keys are
+ * sorted, IGNORED_ARGUMENTS dropped, and string values trimmed, with
+ * whitespace collapsed and case folded unless the field is listed as verbatim
+ * @param args Validated tool arguments
+ * @param verbatimFields Fields whose exact text matters (e.g. source code)
+ */
+export function normalizeArguments(args: object, verbatimFields: readonly string[] = []): string {
+  const normalized: Record<string, unknown> = {};
+  for (const key of Object.keys(args).sort()) {
+    const value = (args as Record<string, unknown>)[key];
+    if (IGNORED_ARGUMENTS.has(key) || value === undefined) continue;
+    normalized[key] = typeof value === 'string' && !verbatimFields.includes(key)
+      ? value.trim().replace(/\s+/g, ' ').toLowerCase()
+      : value;
+  }
+  return JSON.stringify(normalized);
+}
+
+/**
+ * SQLite-backed cache of tool answers keyed on tool name and normalized arguments
+ */
+export class ResponseCache {
+  constructor(private db: Database.Database) {}
+
+  /**
+   * Compute the cache key for a tool call
+   */
+  private keyFor(tool: string, normalizedArgs: string): string {
+    return crypto.createHash('sha256').update(`${tool}\n${normalizedArgs}`).digest('hex');
+  }
+
+  /**
+   * Look up a fresh cached answer
+   * @param tool Tool name
+   * @param normalizedArgs Output of normalizeArguments
+   * @returns The entry, or undefined on a miss or an expired entry
+   */
+  public get(tool: string, normalizedArgs: string): CacheEntry | undefined {
+    const now = Date.now();
+    const key = this.keyFor(tool, normalizedArgs);
+    const row = this.db
+      .prepare('SELECT key, response, created_at, expires_at FROM response_cache WHERE key = ?')
+      .get(key) as CacheRow | undefined;
+    if (!row || row.expires_at <= now) return undefined;
+
+    this.db.prepare('UPDATE response_cache SET hits = hits + 1 WHERE key = ?').run(key);
+    return {
+      answer: JSON.parse(row.response) as StructuredAnswer,
+      createdAt: row.created_at,
+      ageSeconds: Math.round((now - row.created_at) / 1000),
+    };
+  }
+
+  /**
+   * Store an answer, replacing any previous entry for the same call
+   * @param tool Tool name
+   * @param normalizedArgs Output of normalizeArguments
+   * @param answer Answer to cache (metadata is not stored)
+   * @param ttl Time to live in milliseconds
+   */
+  public set(tool: string, normalizedArgs: string, answer: StructuredAnswer, ttl: number): void {
+    const now = Date.now();
+    const { metadata, ...stored } = answer;
+    this.db
+      .prepare(
+        `INSERT OR REPLACE INTO response_cache (key, tool, args, response, created_at, expires_at, hits)
+         VALUES (?, ?, ?, ?, ?, ?, 0)`
+      )
+      .run(this.keyFor(tool, normalizedArgs), tool, normalizedArgs, JSON.stringify(stored), now, now + ttl);
+  }
+
+  /**
+   * Per-tool statistics, ordered by tool name
+   */
+  public stats(): CacheToolStats[] {
+    return this.db
+      .prepare(
+        `SELECT tool,
+                COUNT(*) AS entries,
+                SUM(CASE WHEN expires_at <= ? THEN 1 ELSE 0 END) AS expired,
+                SUM(hits) AS hits,
+                SUM(LENGTH(response)) AS bytes,
+                MIN(created_at) AS oldest_at,
+                MAX(created_at) AS newest_at
+           FROM response_cache
+          GROUP BY tool
+          ORDER BY tool`
+      )
+      .all(Date.now()) as CacheToolStats[];
+  }
+
+  /**
+   * Delete cache entries
+   * @param options.tool Only delete entries of this tool
+   * @param options.expiredOnly Only delete entries past their expiry
+   * @returns Number of entries deleted
+   */
+  public purge(options: { tool?: string; expiredOnly?: boolean } = {}): number {
+    const conditions: string[] = [];
+    const params: (string | number)[] = [];
+    if (options.tool) {
+      conditions.push('tool = ?');
+      params.push(options.tool);
+    }
+    if (options.expiredOnly) {
+      conditions.push('expires_at <= ?');
+      params.push(Date.now());
+    }
+    const where = conditions.length > 0 ? ` WHERE ${conditions.join(' AND ')}` : '';
+    return this.db.prepare(`DELETE FROM response_cache${where}`).run(...params).changes;
+  }
+}
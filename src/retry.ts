@@ -0,0 +1,88 @@
+import { OperationCancelledError } from './errors.js';
+import { logInfo } from './logging.js';
+
+// ─── RETRY WITH BACKOFF ────────────────────────────────────────────────
+
+/**
+ * Bounds of the retry loop for one tool call
+ */
+export interface RetryPolicy {
+  /** Total attempts, including the first */
+  maxAttempts: number;
+  /** Time budget for all attempts, measured from the start of the call */
+  deadline: number;
+  /** Delay before the first retry; doubled for each further retry */
+  baseDelay: number;
+  /** Upper bound of a single delay */
+  maxDelay: number;
+}
+
+/**
+ * Exponential backoff with jitter: a random delay between half and all of
+ * `baseDelay * 2^(retry - 1)`, capped at `maxDelay`
+ * @param retry 1 for the first retry
+ */
+export function computeBackoff(retry: number, policy: Pick<RetryPolicy, 'baseDelay' | 'maxDelay'>): number {
+  const exponential = Math.min(policy.maxDelay, policy.baseDelay * 2 ** (retry - 1));
+  return Math.round(exponential / 2 + Math.random() * (exponential / 2));
+}
+
+/**
+ * Wait for a delay, rejecting early if the signal aborts
+ */
+function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(new OperationCancelledError());
+      return;
+    }
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(new OperationCancelledError());
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+}
+
+/**
+ * Run a task, retrying retryable failures with backoff until it succeeds,
+ * the attempts run out or the next attempt would start past the deadline
+ * @param task The work; receives the 1-based attempt number
+ * @param policy Attempt and time bounds
+ * @param options.startedAt When the call started, for the deadline
+ * @param options.shouldRetry Decides whether an error is worth retrying
+ * @param options.signal Stops waiting between attempts on cancellation
+ * @param options.label Name used in logs
+ * @throws The error of the last attempt
+ */
+export async function retryWithBackoff<T>(
+  task: (attempt: number) => Promise<T>,
+  policy: RetryPolicy,
+  options: {
+    startedAt: number;
+    shouldRetry: (error: unknown) => boolean;
+    signal?: AbortSignal;
+    label: string;
+  }
+): Promise<T> {
+  for (let attempt = 1; ; attempt++) {
+    try {
+      return await task(attempt);
+    } catch (error) {
+      if (attempt >= policy.maxAttempts || !options.shouldRetry(error)) throw error;
+
+      const delay = computeBackoff(attempt, policy);
+      if (Date.now() + delay >= options.startedAt + policy.deadline) {
+        logInfo(`${options.label}: not retrying, deadline of ${policy.deadline}ms would be exceeded`);
+        throw error;
+      }
+
+      logInfo(`${options.label}: attempt ${attempt}/${policy.maxAttempts} failed, retrying in ${delay}ms`);
+      await sleep(delay, options.signal);
+    }
+  }
+}
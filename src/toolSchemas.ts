@@ -0,0 +1,477 @@
+import { STRUCTURED_ANSWER_SCHEMA } from './answer.js';
+import { DOCUMENTATION_ANSWER_SCHEMA } from './documentation.js';
+import { API_COMPARISON_SCHEMA } from './apiComparison.js';
+import { RESEARCH_REPORT_SCHEMA } from './research.js';
+import type { JsonSchemaProperty, ToolDefinition } from './types.js';
+
+/**
+ * Cache-control argument accepted by every tool whose answers are cached
+ */
+const CACHE_ARGUMENT: JsonSchemaProperty = {
+  type: 'string',
+  description: 'Response cache behaviour: "use" a cached answer when fresh, "bypass" the cache entirely, or "refresh" it with a new answer',
+  enum: ['use', 'bypass', 'refresh'],
+  default: 'use',
+};
+
+/**
+ * Output-format argument accepted by every tool that returns an answer or report
+ */
+const FORMAT_ARGUMENT: JsonSchemaProperty = {
+  type: 'string',
+  description: 'Format of the answer body: Markdown (fenced code, tables, lists, links, $LaTeX$), plain text, or cleaned HTML; citations are [n] markers in every format',
+  enum: ['markdown', 'text', 'html'],
+  default: 'markdown',
+};
+
+// ─── TOOL DEFINITIONS ──────────────────────────────────────────────────
+/**
+ * Tools advertised through `tools/list`. Incoming arguments are validated
+ * against these schemas before any handler runs.
+ */
+export const TOOL_DEFINITIONS: ToolDefinition[] = [
+  {
+    name: 'search',
+    description: 'Search for information on the web using Perplexity.ai',
+    inputSchema: {
+      type: 'object',
+      required: ['query'],
+      properties: {
+        query: {
+          type: 'string',
+          description: 'The search query to submit to Perplexity',
+          minLength: 1,
+          maxLength: 8000,
+        },
+        focus: {
+          type: 'string',
+          description: 'Optional focus area for the search',
+          enum: ['brief', 'normal', 'detailed'],
+          default: 'normal',
+        },
+        source_focus: {
+          type: 'string',
+          description: 'Where Perplexity looks for sources: the web, academic papers, social discussions (e.g. Reddit), videos, or "writing" to answer without searching',
+          enum: ['web', 'academic', 'social', 'video', 'writing'],
+        },
+        pro: {
+          type: 'boolean',
+          description: 'Turn Pro Search (deeper multi-step search) on or off; needs a logged-in account with Pro searches left',
+        },
+        model: {
+          type: 'string',
+          description: 'Name of the model to answer with, as shown in the Perplexity model picker (e.g. "Sonar"); needs a Pro account',
+          minLength: 1,
+          maxLength: 100,
+        },
+        format: FORMAT_ARGUMENT,
+        cache: CACHE_ARGUMENT,
+      },
+      additionalProperties: false,
+    },
+    outputSchema: STRUCTURED_ANSWER_SCHEMA,
+  },
+  {
+    name: 'get_documentation',
+    description: 'Get documentation for a technology, library, or tool',
+    inputSchema: {
+      type: 'object',
+      required: ['technology'],
+      properties: {
+        technology: {
+          type: 'string',
+          description: 'The technology, library, or tool to get documentation for',
+          minLength: 1,
+          maxLength: 200,
+        },
+        context: {
+          type: 'string',
+          description: 'Optional context or specific functionality to focus on',
+          maxLength: 2000,
+        },
+        project_path: {
+          type: 'string',
+          description: 'Project directory on the server machine; the installed version is read from its lockfile or manifest (package.json, requirements.txt, go.mod, Cargo.toml, ...)',
+          minLength: 1,
+          maxLength: 4096,
+        },
+        version: {
+          type: 'string',
+          description: 'Version to document, e.g. "18.2.0"; takes precedence over the version found in project_path',
+          minLength: 1,
+          maxLength: 100,
+        },
+        format: FORMAT_ARGUMENT,
+        cache: CACHE_ARGUMENT,
+      },
+      additionalProperties: false,
+    },
+    outputSchema: DOCUMENTATION_ANSWER_SCHEMA,
+  },
+  {
+    name: 'find_apis',
+    description: 'Find APIs that match specific requirements and compare them: returns one record per candidate (provider, docs, auth, pricing and free tier, rate limits, SDKs, maturity, sources) and a ranked Markdown table',
+    inputSchema: {
+      type: 'object',
+      required: ['requirements'],
+      properties: {
+        requirements: {
+          type: 'string',
+          description: 'Description of what you need the API to do',
+          minLength: 1,
+          maxLength: 4000,
+        },
+        context: {
+          type: 'string',
+          description: 'Optional additional context or constraints',
+          maxLength: 2000,
+        },
+        free: {
+          type: 'boolean',
+          description: 'Only return APIs with a free tier',
+        },
+        language: {
+          type: 'string',
+          description: 'Only return APIs with an SDK for this language (e.g. "Python", "Go")',
+          minLength: 1,
+          maxLength: 50,
+        },
+        self_hostable: {
+          type: 'boolean',
+          description: 'Only return APIs that can be self-hosted',
+        },
+        format: FORMAT_ARGUMENT,
+        cache: CACHE_ARGUMENT,
+      },
+      additionalProperties: false,
+    },
+    outputSchema: API_COMPARISON_SCHEMA,
+  },
+  {
+    name: 'check_deprecated_code',
+    description: 'Check if code contains deprecated features. The code is parsed locally (TypeScript/JavaScript, with a simpler fallback for other languages) and only the APIs it uses are checked; findings carry the line, symbol, reason, replacement and source',
+    inputSchema: {
+      type: 'object',
+      required: ['code', 'context'],
+      properties: {
+        code: {
+          type: 'string',
+          description: 'The code snippet to analyze',
+          minLength: 1,
+          maxLength: 100000,
+        },
+        context: {
+          type: 'string',
+          description: 'The technology context (e.g., "React 18", "Node.js 20")',
+          minLength: 1,
+          maxLength: 200,
+        },
+        format: FORMAT_ARGUMENT,
+        cache: CACHE_ARGUMENT,
+      },
+      additionalProperties: false,
+    },
+  },
+  {
+    name: 'chat_perplexity',
+    description: 'Chat with Perplexity AI. Replies are never cached, since each message continues the conversation',
+    inputSchema: {
+      type: 'object',
+      required: ['message'],
+      properties: {
+        message: {
+          type: 'string',
+          description: 'The message to send to Perplexity',
+          minLength: 1,
+          maxLength: 8000,
+        },
+        chat_id: {
+          type: 'string',
+          description: 'Optional chat ID to continue an existing conversation',
+          minLength: 1,
+          maxLength: 100,
+        },
+        format: FORMAT_ARGUMENT,
+      },
+      additionalProperties: false,
+    },
+    outputSchema: STRUCTURED_ANSWER_SCHEMA,
+  },
+  {
+    name: 'list_chats',
+    description: 'List stored conversations, most recently updated first',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        limit: {
+          type: 'integer',
+          description: 'Maximum number of chats to return',
+          minimum: 1,
+          maximum: 100,
+          default: 20,
+        },
+        offset: {
+          type: 'integer',
+          description: 'Number of chats to skip, for pagination',
+          minimum: 0,
+          default: 0,
+        },
+      },
+      additionalProperties: false,
+    },
+  },
+  {
+    name: 'get_chat',
+    description: 'Get the full transcript of a stored conversation',
+    inputSchema: {
+      type: 'object',
+      required: ['chat_id'],
+      properties: {
+        chat_id: {
+          type: 'string',
+          description: 'ID of the chat to fetch',
+          minLength: 1,
+          maxLength: 100,
+        },
+      },
+      additionalProperties: false,
+    },
+  },
+  {
+    name: 'search_chats',
+    description: 'Full-text search across the messages of all stored conversations',
+    inputSchema: {
+      type: 'object',
+      required: ['query'],
+      properties: {
+        query: {
+          type: 'string',
+          description: 'Words to search for; every word must match',
+          minLength: 1,
+          maxLength: 500,
+        },
+        limit: {
+          type: 'integer',
+          description: 'Maximum number of matching messages to return',
+          minimum: 1,
+          maximum: 100,
+          default: 20,
+        },
+      },
+      additionalProperties: false,
+    },
+  },
+  {
+    name: 'export_chat',
+    description: 'Export a stored conversation as Markdown or JSON',
+    inputSchema: {
+      type: 'object',
+      required: ['chat_id'],
+      properties: {
+        chat_id: {
+          type: 'string',
+          description: 'ID of the chat to export',
+          minLength: 1,
+          maxLength: 100,
+        },
+        format: {
+          type: 'string',
+          description: 'Export format; JSON exports can be loaded back with import_chat',
+          enum: ['markdown', 'json'],
+          default: 'markdown',
+        },
+      },
+      additionalProperties: false,
+    },
+  },
+  {
+    name: 'delete_chat',
+    description: 'Delete one stored conversation, or all of them',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        chat_id: {
+          type: 'string',
+          description: 'ID of the chat to delete',
+          minLength: 1,
+          maxLength: 100,
+        },
+        all: {
+          type: 'boolean',
+          description: 'Delete every stored chat (use instead of chat_id)',
+        },
+      },
+      additionalProperties: false,
+    },
+  },
+  {
+    name: 'import_chat',
+    description: 'Import a conversation previously exported with export_chat in JSON format',
+    inputSchema: {
+      type: 'object',
+      required: ['data'],
+      properties: {
+        data: {
+          type: 'string',
+          description: 'The exported JSON document',
+          minLength: 1,
+          maxLength: 5000000,
+        },
+        overwrite: {
+          type: 'boolean',
+          description: 'Replace an existing chat with the same ID',
+          default: false,
+        },
+      },
+      additionalProperties: false,
+    },
+  },
+  {
+    name: 'manage_cache',
+    description: 'Inspect or purge the response cache',
+    inputSchema: {
+      type: 'object',
+      required: ['action'],
+      properties: {
+        action: {
+          type: 'string',
+          description: '"stats" reports entries per tool, "purge" deletes entries',
+          enum: ['stats', 'purge'],
+        },
+        tool: {
+          type: 'string',
+          description: 'Only purge entries of this tool',
+          maxLength: 100,
+        },
+        expired_only: {
+          type: 'boolean',
+          description: 'Only purge entries that have expired',
+          default: false,
+        },
+      },
+      additionalProperties: false,
+    },
+  },
+  {
+    name: 'manage_cookies',
+    description: 'Report whether the browser is logged in to Perplexity, import cookies (e.g. of a Pro account) from a JSON or Netscape cookies.txt file, or export them',
+    inputSchema: {
+      type: 'object',
+      required: ['action'],
+      properties: {
+        action: {
+          type: 'string',
+          description: '"status" reports the login state, "import" adds cookies to the browser profile, "export" returns or writes them',
+          enum: ['status', 'import', 'export'],
+        },
+        data: {
+          type: 'string',
+          description: 'Cookie file content to import (use either this or path)',
+          minLength: 1,
+          maxLength: 1000000,
+        },
+        path: {
+          type: 'string',
+          description: 'Cookie file on the server machine to import from, or to write the export to',
+          minLength: 1,
+          maxLength: 4096,
+        },
+        format: {
+          type: 'string',
+          description: 'Cookie file format; detected from the content on import, "json" by default on export',
+          enum: ['json', 'netscape'],
+        },
+        domain: {
+          type: 'string',
+          description: 'Only export cookies of this domain and its subdomains',
+          default: 'perplexity.ai',
+          minLength: 1,
+          maxLength: 253,
+        },
+      },
+      additionalProperties: false,
+    },
+  },
+  {
+    name: 'deep_research',
+    description: 'Research a question in depth: split it into sub-queries, search them in parallel, merge and rank their sources, and return one report with sections, per-claim citations and a bibliography',
+    inputSchema: {
+      type: 'object',
+      required: ['question'],
+      properties: {
+        question: {
+          type: 'string',
+          description: 'The question to research',
+          minLength: 1,
+          maxLength: 4000,
+        },
+        max_sub_queries: {
+          type: 'integer',
+          description: 'Maximum number of sub-queries per level',
+          default: 4,
+          minimum: 1,
+          maximum: 8,
+        },
+        depth: {
+          type: 'integer',
+          description: 'Levels of searching; each level after the first plans follow-up queries for the gaps left',
+          default: 1,
+          minimum: 1,
+          maximum: 3,
+        },
+        time_budget_seconds: {
+          type: 'integer',
+          description: 'Total time allowed; sub-queries still running when their share of it runs out are dropped',
+          default: 600,
+          minimum: 60,
+          maximum: 1800,
+        },
+        include_sub_answers: {
+          type: 'boolean',
+          description: 'Also return the answer of every sub-query',
+          default: false,
+        },
+        format: FORMAT_ARGUMENT,
+        cache: {
+          ...CACHE_ARGUMENT,
+          description: `${CACHE_ARGUMENT.description}; applies to the sub-query searches, which share the search cache (the report itself is always written anew)`,
+        },
+      },
+      additionalProperties: false,
+    },
+    outputSchema: RESEARCH_REPORT_SCHEMA,
+  },
+  {
+    name: 'fetch_url_content',
+    description: 'Load a web page in the browser and return its main content as Markdown (navigation and boilerplate removed) with title, canonical URL and word count. GitHub repository pages return the README and file listing. Pages are always loaded live, never from the response cache',
+    inputSchema: {
+      type: 'object',
+      required: ['url'],
+      properties: {
+        url: {
+          type: 'string',
+          description: 'http(s) URL of the page to read',
+          minLength: 1,
+          maxLength: 4096,
+        },
+        max_length: {
+          type: 'integer',
+          description: 'Maximum number of Markdown characters to return; longer content is truncated',
+          default: 20000,
+          minimum: 1000,
+          maximum: 200000,
+        },
+      },
+      additionalProperties: false,
+    },
+  },
+];
+
+/**
+ * Look up a tool definition by name
+ * @param name Tool name from the `tools/call` request
+ * @returns The matching definition, or undefined for unknown tools
+ */
+export function getToolDefinition(name: string): ToolDefinition | undefined {
+  return TOOL_DEFINITIONS.find((tool) => tool.name === name);
+}
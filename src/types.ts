@@ -0,0 +1,446 @@
+// ─── SHARED TYPES ──────────────────────────────────────────────────────
+
+/**
+ * Subset of JSON Schema supported for tool arguments
+ */
+export interface JsonSchemaProperty {
+  type: 'string' | 'number' | 'integer' | 'boolean' | 'array' | 'object';
+  description?: string;
+  enum?: readonly (string | number)[];
+  default?: unknown;
+  minLength?: number;
+  maxLength?: number;
+  minimum?: number;
+  maximum?: number;
+  items?: JsonSchemaProperty;
+  minItems?: number;
+  maxItems?: number;
+}
+
+/**
+ * Input schema advertised for each tool through `tools/list`
+ */
+export interface ToolInputSchema {
+  type: 'object';
+  properties: Record<string, JsonSchemaProperty>;
+  required?: string[];
+  additionalProperties?: boolean;
+  [key: string]: unknown;
+}
+
+/**
+ * Tool definition as exposed to MCP clients
+ */
+export interface ToolDefinition {
+  name: string;
+  description: string;
+  inputSchema: ToolInputSchema;
+  outputSchema?: { type: 'object'; [key: string]: unknown };
+}
+
+/**
+ * Prompt template as exposed to MCP clients
+ */
+export interface PromptDefinition {
+  name: string;
+  description: string;
+  arguments: Array<{ name: string; description: string; required?: boolean }>;
+}
+
+/**
+ * Answer length requested for a search
+ */
+export type SearchFocus = 'brief' | 'normal' | 'detailed';
+
+/**
+ * Where Perplexity looks for sources; `writing` answers without searching
+ */
+export type SourceFocus = 'web' | 'academic' | 'social' | 'video' | 'writing';
+
+/**
+ * Format of an answer body: Markdown, plain text, or the cleaned answer HTML
+ */
+export type OutputFormat = 'markdown' | 'text' | 'html';
+
+/**
+ * Arguments of the `search` tool
+ */
+export interface SearchParams {
+  query: string;
+  focus: SearchFocus;
+  source_focus?: SourceFocus;
+  pro?: boolean;
+  model?: string;
+  format?: OutputFormat;
+  cache?: CacheMode;
+}
+
+/**
+ * Arguments of the `get_documentation` tool
+ */
+export interface GetDocumentationParams {
+  technology: string;
+  context?: string;
+  project_path?: string;
+  version?: string;
+  format?: OutputFormat;
+  cache?: CacheMode;
+}
+
+/**
+ * Version of a package found in a project's lockfile or manifest
+ */
+export interface ResolvedVersion {
+  /** Package name as written in the project file */
+  package: string;
+  version: string;
+  /** False when only a range was declared (e.g. "^18.2.0" in package.json) */
+  exact: boolean;
+  /** File the version was read from */
+  source: string;
+}
+
+/**
+ * Arguments of the `find_apis` tool
+ */
+export interface FindApisParams {
+  requirements: string;
+  context?: string;
+  free?: boolean;
+  language?: string;
+  self_hostable?: boolean;
+  cache?: CacheMode;
+  format?: OutputFormat;
+}
+
+/**
+ * An API proposed by `find_apis`
+ */
+export interface ApiCandidate {
+  /** 1-based position after filtering, best fit first */
+  rank: number;
+  name: string;
+  provider: string;
+  docs_url: string | null;
+  auth_method: string;
+  pricing_model: string;
+  /** null when the answer did not say */
+  free_tier: boolean | null;
+  free_tier_details: string;
+  rate_limits: string;
+  sdk_languages: string[];
+  self_hostable: boolean | null;
+  /** Stability, adoption and caveats */
+  maturity: string;
+  /** How well the API meets the requirements, 1 to 10 */
+  fit: number | null;
+  /** URLs backing the details */
+  sources: string[];
+}
+
+/**
+ * `find_apis` answer with the candidates as records and a comparison table
+ */
+export interface ApiComparisonAnswer extends StructuredAnswer {
+  candidates: ApiCandidate[];
+  /** Candidates removed by the free, language or self_hostable filters */
+  excluded: Array<{ name: string; reason: string }>;
+  /** Markdown table of the candidates, best fit first */
+  comparison_table: string;
+}
+
+/**
+ * Arguments of the `check_deprecated_code` tool
+ */
+export interface CheckDeprecatedCodeParams {
+  code: string;
+  context: string;
+  cache?: CacheMode;
+  format?: OutputFormat;
+}
+
+/**
+ * A use of a deprecated API, shaped so an editor can show it as a diagnostic
+ */
+export interface DeprecationFinding {
+  /** 1-based line of the use, null when the reported API was not found in the code */
+  line: number | null;
+  symbol: string;
+  /** Module the symbol was imported from, when known */
+  module?: string;
+  /** What changed and since which version */
+  why: string;
+  replacement: string;
+  /** Documentation or changelog backing the finding */
+  source?: string;
+}
+
+/**
+ * Arguments of the `chat_perplexity` tool
+ */
+export interface ChatParams {
+  message: string;
+  chat_id?: string;
+  format?: OutputFormat;
+}
+
+/**
+ * A source cited by a Perplexity answer
+ */
+export interface Source {
+  /** 1-based position, matching the `[n]` markers in the answer */
+  index: number;
+  title: string;
+  url: string;
+  domain: string;
+  snippet?: string;
+}
+
+/**
+ * Link between an inline `[n]` marker and the source it refers to
+ */
+export interface Citation {
+  marker: string;
+  sourceIndex: number;
+}
+
+/**
+ * Answer split into a markdown body, its sources and the citation mapping
+ */
+export interface StructuredAnswer {
+  answer: string;
+  sources: Source[];
+  citations: Citation[];
+  /** Extra fields about how the answer was produced (e.g. the chat ID) */
+  metadata?: Record<string, string | number | boolean>;
+  /** Cleaned answer HTML, kept so other formats can be rendered; not returned to clients */
+  html?: string;
+}
+
+/**
+ * Documentation answer split into its parts
+ */
+export interface DocumentationAnswer extends StructuredAnswer {
+  /** Text before the first heading */
+  overview: string;
+  sections: Array<{ title: string; level: number; content: string }>;
+  code_examples: Array<{ language: string; code: string; section?: string }>;
+  /** Cited pages, official documentation first */
+  doc_links: Array<{ title: string; url: string; official: boolean }>;
+  resolved_version?: ResolvedVersion;
+}
+
+/**
+ * Arguments of the `deep_research` tool
+ */
+export interface DeepResearchParams {
+  question: string;
+  max_sub_queries: number;
+  depth: number;
+  time_budget_seconds: number;
+  include_sub_answers: boolean;
+  format?: OutputFormat;
+  /** Applies to the sub-query searches, which share the `search` cache */
+  cache?: CacheMode;
+}
+
+/**
+ * A source of a research report, numbered across all sub-queries
+ */
+export interface BibliographyEntry extends Source {
+  /** Number of sub-answers that cite it */
+  cited_by: number;
+}
+
+/**
+ * A search run while researching a question
+ */
+export interface SubQueryResult {
+  query: string;
+  /** 1 for the initial decomposition, higher for follow-up rounds */
+  level: number;
+  status: 'answered' | 'failed' | 'timed_out';
+  error?: string;
+  /** Answer with markers renumbered to the bibliography, when requested */
+  answer?: string;
+}
+
+/**
+ * Report produced by `deep_research`
+ */
+export interface ResearchReport extends StructuredAnswer {
+  sources: BibliographyEntry[];
+  sub_queries: SubQueryResult[];
+}
+
+/**
+ * One turn of a stored conversation
+ */
+export interface ChatMessage {
+  role: 'user' | 'assistant';
+  content: string;
+  timestamp: number;
+  sources?: Source[];
+  /** Perplexity thread URL the answer was read from (assistant turns only) */
+  url?: string;
+}
+
+/**
+ * A conversation as stored in the `chat_history` table
+ */
+export interface Chat {
+  id: string;
+  messages: ChatMessage[];
+  created_at: number;
+  updated_at: number;
+}
+
+/**
+ * Summary of a stored conversation, as shown by `list_chats`
+ */
+export interface ChatSummary {
+  chat_id: string;
+  title: string;
+  preview: string;
+  message_count: number;
+  created_at: number;
+  updated_at: number;
+}
+
+/**
+ * A message matching a `search_chats` query
+ */
+export interface ChatSearchHit {
+  chat_id: string;
+  title: string;
+  message_index: number;
+  role: ChatMessage['role'];
+  snippet: string;
+}
+
+/**
+ * Arguments of the `list_chats` tool
+ */
+export interface ListChatsParams {
+  limit: number;
+  offset: number;
+}
+
+/**
+ * Arguments of the `get_chat` tool
+ */
+export interface GetChatParams {
+  chat_id: string;
+}
+
+/**
+ * Arguments of the `search_chats` tool
+ */
+export interface SearchChatsParams {
+  query: string;
+  limit: number;
+}
+
+/**
+ * Arguments of the `export_chat` tool
+ */
+export interface ExportChatParams {
+  chat_id: string;
+  format: 'markdown' | 'json';
+}
+
+/**
+ * Arguments of the `delete_chat` tool
+ */
+export interface DeleteChatParams {
+  chat_id?: string;
+  all?: boolean;
+}
+
+/**
+ * Arguments of the `import_chat` tool
+ */
+export interface ImportChatParams {
+  data: string;
+  overwrite: boolean;
+}
+
+/**
+ * How a tool call interacts with the response cache:
+ * `use` reads and writes, `bypass` neither reads nor writes,
+ * `refresh` skips the read but stores the new answer
+ */
+export type CacheMode = 'use' | 'bypass' | 'refresh';
+
+/**
+ * Cache statistics for one tool, as reported by `manage_cache`
+ */
+export interface CacheToolStats {
+  tool: string;
+  entries: number;
+  expired: number;
+  hits: number;
+  bytes: number;
+  oldest_at: number | null;
+  newest_at: number | null;
+}
+
+/**
+ * Arguments of the `manage_cache` tool
+ */
+export interface ManageCacheParams {
+  action: 'stats' | 'purge';
+  tool?: string;
+  expired_only: boolean;
+}
+
+/**
+ * Arguments of the `manage_cookies` tool
+ */
+export interface ManageCookiesParams {
+  action: 'status' | 'import' | 'export';
+  data?: string;
+  path?: string;
+  format?: 'json' | 'netscape';
+  domain: string;
+}
+
+/**
+ * Arguments of the `fetch_url_content` tool
+ */
+export interface FetchUrlContentParams {
+  url: string;
+  max_length: number;
+}
+
+/**
+ * Entry of a GitHub repository file listing
+ */
+export interface GitHubEntry {
+  name: string;
+  type: 'file' | 'dir';
+  url: string;
+}
+
+/**
+ * Readable content extracted from a web page
+ */
+export interface PageContent {
+  /** URL after redirects */
+  url: string;
+  /** HTTP status of the final response, null when the page came from the cache or a service worker */
+  status: number | null;
+  canonical_url: string;
+  title: string;
+  markdown: string;
+  word_count: number;
+  truncated: boolean;
+  /** Length of the Markdown before truncation */
+  total_length: number;
+  /** Set for GitHub repository pages, whose Markdown is the README */
+  github?: {
+    repository: string;
+    has_readme: boolean;
+    files: GitHubEntry[];
+  };
+}
@@ -0,0 +1,141 @@
+import { InvalidInputError } from './errors.js';
+import type { JsonSchemaProperty, ToolDefinition } from './types.js';
+
+// ─── ARGUMENT VALIDATION ───────────────────────────────────────────────
+
+/**
+ * A single validation failure for one argument
+ */
+export interface ValidationIssue {
+  field: string;
+  message: string;
+}
+
+/**
+ * Describe the JSON type of a value the way JSON Schema names it
+ */
+function jsonTypeOf(value: unknown): string {
+  if (value === null) return 'null';
+  if (Array.isArray(value)) return 'array';
+  if (typeof value === 'number') return Number.isInteger(value) ? 'integer' : 'number';
+  return typeof value;
+}
+
+/**
+ * Check a single value against a property schema
+ * @param field Dotted path of the value, used in messages
+ * @param value Value supplied by the client
+ * @param schema Property schema to check against
+ * @param issues Accumulator for every failure found
+ */
+function validateValue(
+  field: string,
+  value: unknown,
+  schema: JsonSchemaProperty,
+  issues: ValidationIssue[]
+): void {
+  const actualType = jsonTypeOf(value);
+  const typeMatches =
+    actualType === schema.type ||
+    (schema.type === 'number' && actualType === 'integer');
+
+  if (!typeMatches) {
+    issues.push({ field, message: `expected ${schema.type}, got ${actualType}` });
+    return;
+  }
+
+  if (schema.enum && !schema.enum.includes(value as string | number)) {
+    issues.push({ field, message: `must be one of: ${schema.enum.join(', ')}` });
+  }
+
+  if (typeof value === 'string') {
+    if (schema.minLength !== undefined && value.trim().length < schema.minLength) {
+      issues.push({
+        field,
+        message: schema.minLength === 1
+          ? 'must not be empty'
+          : `must be at least ${schema.minLength} characters`,
+      });
+    }
+    if (schema.maxLength !== undefined && value.length > schema.maxLength) {
+      issues.push({ field, message: `must be at most ${schema.maxLength} characters (got ${value.length})` });
+    }
+  }
+
+  if (typeof value === 'number') {
+    if (schema.minimum !== undefined && value < schema.minimum) {
+      issues.push({ field, message: `must be >= ${schema.minimum}` });
+    }
+    if (schema.maximum !== undefined && value > schema.maximum) {
+      issues.push({ field, message: `must be <= ${schema.maximum}` });
+    }
+  }
+
+  if (Array.isArray(value)) {
+    if (schema.minItems !== undefined && value.length < schema.minItems) {
+      issues.push({ field, message: `must contain at least ${schema.minItems} items` });
+    }
+    if (schema.maxItems !== undefined && value.length > schema.maxItems) {
+      issues.push({ field, message: `must contain at most ${schema.maxItems} items` });
+    }
+    if (schema.items) {
+      value.forEach((item, index) => validateValue(`${field}[${index}]`, item, schema.items!, issues));
+    }
+  }
+}
+
+/**
+ * Validate tool arguments against the tool's input schema and apply defaults
+ * @param tool Definition of the tool being called
+ * @param args Raw arguments from the `tools/call` request
+ * @returns The arguments with defaults filled in
+ * @throws InvalidInputError listing every offending field in `details.errors`
+ */
+export function validateToolArguments<T>(tool: ToolDefinition, args: unknown): T {
+  const issues: ValidationIssue[] = [];
+  const { properties, required = [], additionalProperties } = tool.inputSchema;
+
+  if (args !== undefined && (typeof args !== 'object' || args === null || Array.isArray(args))) {
+    throw new InvalidInputError(
+      `Invalid arguments for tool "${tool.name}": expected an object`,
+      { errors: [{ field: '(root)', message: `expected object, got ${jsonTypeOf(args)}` }] }
+    );
+  }
+
+  const input = (args ?? {}) as Record<string, unknown>;
+  const result: Record<string, unknown> = {};
+
+  for (const field of required) {
+    if (input[field] === undefined) {
+      issues.push({ field, message: 'is required' });
+    }
+  }
+
+  for (const [field, value] of Object.entries(input)) {
+    const schema = properties[field];
+    if (!schema) {
+      if (additionalProperties === false) {
+        issues.push({ field, message: 'is not a recognized argument' });
+      }
+      continue;
+    }
+    if (value === undefined) continue;
+    validateValue(field, value, schema, issues);
+    result[field] = value;
+  }
+
+  if (issues.length > 0) {
+    throw new InvalidInputError(
+      `Invalid arguments for tool "${tool.name}": ${issues.map((i) => `${i.field} ${i.message}`).join('; ')}`,
+      { errors: issues }
+    );
+  }
+
+  for (const [field, schema] of Object.entries(properties)) {
+    if (result[field] === undefined && schema.default !== undefined) {
+      result[field] = schema.default;
+    }
+  }
+
+  return result as T;
+}
@@ -0,0 +1,27 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { readFileSync } from 'node:fs';
+import { buildStructuredAnswer, extractJsonArray } from '../build/answer.js';
+import { cleanHtml, htmlToMarkdown } from '../build/markdown.js';
+
+const URL_OF_THREAD = 'https://www.perplexity.ai/search/abc';
+
+function answerOf(fixture) {
+  const html = cleanHtml(readFileSync(new URL(`./fixtures/answer/${fixture}`, import.meta.url), 'utf8'), URL_OF_THREAD);
+  return buildStructuredAnswer({ text: htmlToMarkdown(html), html, sources: [], url: URL_OF_THREAD });
+}
+
+test('a JSON array shown as page text is parsed despite Markdown escaping', () => {
+  const answer = answerOf('json-answer.html');
+  assert.match(answer.answer, /\\</);
+  assert.deepEqual(extractJsonArray(answer), [
+    { name: 'Resend', why: 'Typed client, e.g. send<T>() returns `Result<T>` & errors', pricing: 'free_tier *only*' },
+    { name: 'Postmark', why: '# of retries and - bounce hooks', pricing: 'paid' },
+  ]);
+});
+
+test('answers without HTML are parsed from their body', () => {
+  const answer = { answer: 'Queries:\n\n["first", "second"] [1]', sources: [], citations: [] };
+  assert.deepEqual(extractJsonArray(answer), ['first', 'second']);
+  assert.equal(extractJsonArray({ ...answer, answer: 'No list here.' }), null);
+});
@@ -0,0 +1,69 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { CircuitBreaker } from '../build/circuitBreaker.js';
+import { BackendUnavailableError } from '../build/errors.js';
+
+/**
+ * A breaker that opened on one failure and is ready for its trial call
+ */
+function halfOpenBreaker() {
+  const breaker = new CircuitBreaker({ failureThreshold: 1, cooldown: 0 });
+  breaker.recordFailure(false);
+  assert.equal(breaker.getState(), 'open');
+  return breaker;
+}
+
+test('only one trial call is let through while half-open', () => {
+  const breaker = halfOpenBreaker();
+  assert.equal(breaker.check(), true);
+  assert.equal(breaker.getState(), 'half_open');
+  assert.throws(() => breaker.check(), BackendUnavailableError);
+});
+
+test('a neutral call that did not hold the trial slot keeps it taken', () => {
+  const breaker = new CircuitBreaker({ failureThreshold: 1, cooldown: 0 });
+  const earlier = breaker.check();
+  breaker.recordFailure(false);
+
+  assert.equal(breaker.check(), true);
+  breaker.recordNeutral(earlier);
+  assert.throws(() => breaker.check(), BackendUnavailableError);
+});
+
+test('a neutral trial call frees the slot for the next one', () => {
+  const breaker = halfOpenBreaker();
+  const trial = breaker.check();
+  breaker.recordNeutral(trial);
+  assert.equal(breaker.check(), true);
+  breaker.recordSuccess();
+  assert.equal(breaker.getState(), 'closed');
+});
+
+test('a late failure of a call that did not hold the trial slot changes nothing', () => {
+  const breaker = new CircuitBreaker({ failureThreshold: 1, cooldown: 0 });
+  const earlier = breaker.check();
+  breaker.recordFailure(earlier);
+
+  assert.equal(breaker.check(), true);
+  breaker.recordFailure(earlier);
+  assert.equal(breaker.getState(), 'half_open');
+  assert.throws(() => breaker.check(), BackendUnavailableError);
+});
+
+test('late failures do not extend the cooldown of an open breaker', (t) => {
+  t.mock.timers.enable({ apis: ['Date'], now: 0 });
+  const breaker = new CircuitBreaker({ failureThreshold: 1, cooldown: 1000 });
+  const earlier = breaker.check();
+  breaker.recordFailure(earlier);
+
+  t.mock.timers.tick(900);
+  breaker.recordFailure(earlier);
+  t.mock.timers.tick(100);
+  assert.equal(breaker.check(), true);
+});
+
+test('a failed trial call reopens the breaker', () => {
+  const breaker = halfOpenBreaker();
+  breaker.recordFailure(breaker.check());
+  assert.equal(breaker.getState(), 'open');
+});
@@ -0,0 +1,28 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { findingsFromAnswer } from '../build/deprecations.js';
+
+const apis = [
+  { symbol: 'Component', module: 'react', kind: 'import', lines: [1] },
+  { symbol: 'component', kind: 'call', lines: [7] },
+  { symbol: 'ReactDOM.render', module: 'react-dom', kind: 'call', lines: [12] },
+];
+
+function answerWith(reports) {
+  return { answer: JSON.stringify(reports), sources: [], citations: [] };
+}
+
+test('findings are tied to the usages with the same case', () => {
+  const findings = findingsFromAnswer(answerWith([
+    { symbol: 'Component', why: 'Class components are legacy', replacement: 'Function components' },
+  ]), apis);
+  assert.deepEqual(findings.map((finding) => [finding.line, finding.symbol]), [[1, 'Component']]);
+});
+
+test('case and qualification are only ignored when nothing else matches', () => {
+  const findings = findingsFromAnswer(answerWith([
+    { symbol: 'reactdom.render()', why: 'Removed in React 19', replacement: 'createRoot().render' },
+    { symbol: 'render', why: 'Removed in React 19', replacement: 'createRoot().render' },
+  ]), apis);
+  assert.deepEqual(findings.map((finding) => [finding.line, finding.symbol]), [[12, 'ReactDOM.render'], [12, 'ReactDOM.render']]);
+});
@@ -0,0 +1,16 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { redactArguments } from '../build/logging.js';
+
+test('redactArguments hides cookie data and file paths', () => {
+  assert.deepEqual(redactArguments({ action: 'import', data: 'session-token=secret', format: 'netscape' }), {
+    action: 'import',
+    data: '[redacted, 20 characters]',
+    format: 'netscape',
+  });
+  assert.deepEqual(redactArguments({ action: 'export', path: '/home/me/cookies.txt' }), {
+    action: 'export',
+    path: '[redacted, 20 characters]',
+  });
+  assert.equal(redactArguments(undefined), undefined);
+});
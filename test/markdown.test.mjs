@@ -0,0 +1,53 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { readFileSync } from 'node:fs';
+import { cleanHtml, convertHtml, convertMarkdown, htmlToMarkdown, htmlToText } from '../build/markdown.js';
+
+const fixture = (name) => readFileSync(new URL(`./fixtures/answer/${name}`, import.meta.url), 'utf8').replace(/\n$/, '');
+const BASE_URL = 'https://www.perplexity.ai/search/abc';
+
+test('a scraped answer is cleaned to the stored HTML', () => {
+  const html = cleanHtml(fixture('answer.html'), BASE_URL);
+  assert.equal(html, fixture('answer.clean.html'));
+  assert.equal(convertHtml(html, 'html'), html);
+});
+
+test('a scraped answer converts to the stored Markdown', () => {
+  assert.equal(convertHtml(cleanHtml(fixture('answer.html'), BASE_URL), 'markdown'), fixture('answer.md'));
+});
+
+test('a scraped answer converts to the stored text', () => {
+  assert.equal(convertHtml(cleanHtml(fixture('answer.html'), BASE_URL), 'text'), fixture('answer.txt'));
+});
+
+test('text that looks like a block marker at the start of a line is escaped', () => {
+  assert.equal(htmlToMarkdown('<p># not heading</p>'), '\\# not heading');
+  assert.equal(htmlToMarkdown('<p>- not a list</p><p>+ nor this</p>'), '\\- not a list\n\n\\+ nor this');
+  assert.equal(htmlToMarkdown('<p>1. not a list</p>'), '1\\. not a list');
+  assert.equal(htmlToMarkdown('<p>&gt; not a quote</p>'), '\\> not a quote');
+  assert.equal(htmlToMarkdown('<p>first<br>- second</p>'), 'first\n\\- second');
+  assert.equal(htmlToMarkdown('<ul><li>- item</li></ul>'), '- \\- item');
+});
+
+test('block markers inside a line are left alone', () => {
+  assert.equal(htmlToMarkdown('<p><strong>Term</strong> - definition</p>'), '**Term** - definition');
+  assert.equal(htmlToMarkdown('<p>1990 - 2000, step 2. then</p>'), '1990 - 2000, step 2. then');
+});
+
+test('decoded entities are escaped again', () => {
+  assert.equal(htmlToMarkdown('<p>a &lt;b&gt; tag</p>'), 'a \\<b> tag');
+  assert.equal(htmlToMarkdown('<p>write &amp;lt; for &amp; &amp; co</p>'), 'write \\&lt; for & & co');
+  assert.equal(htmlToText('<p>a &lt;b&gt; &amp; c</p>'), 'a <b> & c');
+});
+
+test('server-written Markdown is rendered in the requested format', () => {
+  const markdown = '## Deprecated APIs\n\n- Line 3: `new Buffer()` [1]\n\n[1] [Node.js docs](https://nodejs.org/api/buffer.html) (nodejs.org)\n[2] [Blog](https://example.com/) (example.com)';
+  assert.equal(convertMarkdown(markdown, 'markdown'), markdown);
+  assert.equal(
+    convertMarkdown(markdown, 'text'),
+    'Deprecated APIs\n\n- Line 3: new Buffer() [1]\n\n[1] Node.js docs (https://nodejs.org/api/buffer.html) (nodejs.org)\n[2] Blog (https://example.com/) (example.com)'
+  );
+  const html = convertMarkdown(markdown, 'html');
+  assert.match(html, /<h2>Deprecated APIs<\/h2>/);
+  assert.match(html, /<li>Line 3: <code>new Buffer\(\)<\/code> \[1\]<\/li>/);
+});
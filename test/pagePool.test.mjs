@@ -0,0 +1,91 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { PagePool } from '../build/pagePool.js';
+
+/**
+ * Stand-in for a puppeteer page
+ */
+function fakePage(name) {
+  return {
+    name,
+    closed: false,
+    isClosed() {
+      return this.closed;
+    },
+    async close() {
+      this.closed = true;
+    },
+  };
+}
+
+/**
+ * Page factory whose pages open only when the test says so
+ */
+function deferredFactory() {
+  const pending = [];
+  let count = 0;
+  const createPage = () => new Promise((resolve) => pending.push(() => resolve(fakePage(`page ${++count}`))));
+  const openNext = async () => {
+    pending.shift()();
+    await new Promise((resolve) => setImmediate(resolve));
+  };
+  return { createPage, openNext };
+}
+
+test('a page opened before invalidate is closed instead of leased', async () => {
+  const { createPage, openNext } = deferredFactory();
+  const pool = new PagePool(createPage, { size: 1, acquireTimeout: 1000 });
+  const leased = pool.acquire('test');
+
+  pool.invalidate();
+  await openNext();
+  await openNext();
+  const page = await leased;
+  assert.equal(page.name, 'page 2');
+  assert.equal(pool.stats().leased, 1);
+  await pool.close();
+});
+
+test('replace does not return a page of the browser that was restarted', async () => {
+  const { createPage, openNext } = deferredFactory();
+  const pool = new PagePool(createPage, { size: 1, acquireTimeout: 1000 });
+  const leased = pool.acquire('test');
+  await openNext();
+  const first = await leased;
+
+  const replacement = pool.replace(first);
+  pool.invalidate();
+  await openNext();
+  await openNext();
+  const page = await replacement;
+  assert.equal(page.name, 'page 3');
+  assert.equal(first.closed, true);
+  await pool.close();
+});
+
+test('the abort listener is removed once the request is served or times out', async () => {
+  const { createPage, openNext } = deferredFactory();
+  const pool = new PagePool(createPage, { size: 1, acquireTimeout: 20 });
+  const { signal } = new AbortController();
+  let listeners = 0;
+  const add = signal.addEventListener.bind(signal);
+  const remove = signal.removeEventListener.bind(signal);
+  signal.addEventListener = (...args) => {
+    listeners++;
+    add(...args);
+  };
+  signal.removeEventListener = (...args) => {
+    listeners--;
+    remove(...args);
+  };
+
+  const served = pool.acquire('served', signal);
+  await openNext();
+  const page = await served;
+  assert.equal(listeners, 0);
+
+  await assert.rejects(pool.acquire('timed out', signal), /Timed out/);
+  assert.equal(listeners, 0);
+  pool.release(page);
+  await pool.close();
+});
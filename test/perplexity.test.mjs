@@ -0,0 +1,69 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { readFileSync } from 'node:fs';
+import { JSDOM } from 'jsdom';
+import { readAnswerContent, readAnswerState, SELECTORS } from '../build/perplexity.js';
+
+const THREAD_URL = 'https://www.perplexity.ai/search/what-is-mcp-abc123';
+
+/**
+ * Load a saved page as the global document the page functions read
+ */
+function loadFixture(name) {
+  const html = readFileSync(new URL(`./fixtures/${name}`, import.meta.url), 'utf8');
+  const { window } = new JSDOM(html, { url: THREAD_URL });
+  globalThis.window = window;
+  globalThis.document = window.document;
+  return window;
+}
+
+test('readAnswerState reads the latest answer of the thread', () => {
+  loadFixture('perplexity-results.html');
+  const state = readAnswerState(SELECTORS);
+  assert.equal(state.count, 2);
+  assert.equal(state.generating, false);
+  assert.match(state.text, /^Overview/);
+});
+
+test('readAnswerState reports a visible stop button as generating', () => {
+  const window = loadFixture('perplexity-results.html');
+  const stop = window.document.createElement('button');
+  stop.setAttribute('aria-label', 'Stop generating response');
+  window.document.querySelector('.composer').append(stop);
+  assert.equal(readAnswerState(SELECTORS).generating, true);
+});
+
+test('readAnswerContent numbers citations after the sources list', () => {
+  loadFixture('perplexity-results.html');
+  const content = readAnswerContent(SELECTORS);
+  assert.equal(content.url, THREAD_URL);
+  assert.deepEqual(content.sources, [
+    {
+      url: 'https://modelcontextprotocol.io/introduction',
+      title: 'Introduction - Model Context Protocol',
+      snippet: 'MCP is an open protocol that standardizes how applications provide context to LLMs.',
+    },
+    {
+      url: 'https://github.com/modelcontextprotocol/specification',
+      title: 'modelcontextprotocol/specification',
+      snippet: undefined,
+    },
+    {
+      url: 'https://www.anthropic.com/news/model-context-protocol',
+      title: 'Introducing the Model Context Protocol',
+    },
+  ]);
+  assert.match(content.html, /connects models to tools \[1\] and data sources \[2\]\./);
+  assert.match(content.html, /blog post \[3\]\./);
+  assert.doesNotMatch(content.html, /earlier answer/);
+  assert.doesNotMatch(content.html, /class="citation"/);
+});
+
+test('every selector group matches the saved results page', () => {
+  const window = loadFixture('perplexity-results.html');
+  const matches = (candidates) => candidates.some((selector) => window.document.querySelector(selector));
+  for (const group of ['queryInput', 'answer', 'citation', 'sourceItem', 'sourceFocusButton', 'proToggle']) {
+    assert.ok(matches(SELECTORS[group]), `no selector of SELECTORS.${group} matches`);
+  }
+  assert.ok(!matches(SELECTORS.stopButton));
+});
@@ -0,0 +1,24 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { fileURLToPath } from 'node:url';
+import { resolveProjectVersion } from '../build/projectVersions.js';
+
+const PROJECT = fileURLToPath(new URL('./fixtures/npm-project', import.meta.url));
+
+test('the package itself wins over a scoped namesake listed before it', () => {
+  assert.deepEqual(resolveProjectVersion(PROJECT, 'react'), {
+    package: 'react',
+    version: '18.2.0',
+    exact: true,
+    source: 'package-lock.json',
+  });
+});
+
+test('a scoped package still matches its unscoped name', () => {
+  assert.equal(resolveProjectVersion(PROJECT, 'react-query')?.package, '@tanstack/react-query');
+});
+
+test('type packages only match when asked for by name', () => {
+  assert.equal(resolveProjectVersion(PROJECT, 'node'), null);
+  assert.equal(resolveProjectVersion(PROJECT, '@types/node')?.version, '22.7.5');
+});
@@ -0,0 +1,35 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { TimeoutError } from 'puppeteer';
+import { fetchPageContent } from '../build/reader.js';
+import { FetchFailedError, FetchTimeoutError } from '../build/errors.js';
+
+const OPTIONS = { timeout: 1000, maxLength: 1000 };
+
+/**
+ * Stand-in for a puppeteer page whose navigation ends with `goto`
+ */
+function fakePage(goto) {
+  return { goto, url: () => 'https://example.com/missing' };
+}
+
+test('an HTTP error status fails the fetch and is reported', async () => {
+  const page = fakePage(async () => ({ status: () => 429, statusText: () => 'Too Many Requests' }));
+  await assert.rejects(fetchPageContent(page, 'https://example.com/missing', OPTIONS), (error) => {
+    assert.ok(error instanceof FetchFailedError);
+    assert.equal(error.details.status, 429);
+    assert.match(error.message, /HTTP 429 Too Many Requests/);
+    return true;
+  });
+});
+
+test('navigation timeouts and network errors get their own errors', async () => {
+  await assert.rejects(
+    fetchPageContent(fakePage(async () => { throw new TimeoutError('Navigation timeout'); }), 'https://example.com/', OPTIONS),
+    FetchTimeoutError
+  );
+  await assert.rejects(
+    fetchPageContent(fakePage(async () => { throw new Error('net::ERR_NAME_NOT_RESOLVED at https://nowhere.invalid/'); }), 'https://nowhere.invalid/', OPTIONS),
+    (error) => error instanceof FetchFailedError && error.message.endsWith('net::ERR_NAME_NOT_RESOLVED')
+  );
+});
@@ -0,0 +1,87 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { EventEmitter } from 'node:events';
+import { RequestBlocker } from '../build/requestBlocker.js';
+
+/**
+ * Stand-in for a puppeteer page that records its interception settings
+ */
+function fakePage() {
+  const page = new EventEmitter();
+  page.settings = {};
+  page.setRequestInterception = async (value) => {
+    page.settings.interception = value;
+  };
+  page.setCacheEnabled = async (value) => {
+    page.settings.cache = value;
+  };
+  return page;
+}
+
+/**
+ * Stand-in for an intercepted request that records how it was resolved
+ */
+function fakeRequest(url, type, { navigation = false } = {}) {
+  const request = {
+    resolution: null,
+    url: () => url,
+    resourceType: () => type,
+    isNavigationRequest: () => navigation,
+    isInterceptResolutionHandled: () => request.resolution !== null,
+    continue: async () => {
+      request.resolution = 'continue';
+    },
+    abort: async (reason) => {
+      request.resolution = reason;
+    },
+  };
+  return request;
+}
+
+function intercept(page, ...args) {
+  const request = fakeRequest(...args);
+  page.emit('request', request);
+  return request.resolution;
+}
+
+test('attach intercepts requests and keeps the cache on', async () => {
+  const blocker = new RequestBlocker({ enabled: true, resourceTypes: ['image'], urlPatterns: [] });
+  const page = fakePage();
+  await blocker.attach(page);
+  assert.deepEqual(page.settings, { interception: true, cache: true });
+});
+
+test('requests are blocked by resource type, whatever their URL', async () => {
+  const blocker = new RequestBlocker({ enabled: true, resourceTypes: ['image', 'font'], urlPatterns: ['*hotjar.com*'] });
+  const page = fakePage();
+  await blocker.attach(page);
+
+  assert.equal(intercept(page, 'https://www.perplexity.ai/_next/image?url=%2Flogo&w=64', 'image'), 'blockedbyclient');
+  assert.equal(intercept(page, 'https://fonts.example.com/s/inter', 'font'), 'blockedbyclient');
+  assert.equal(intercept(page, 'https://static.hotjar.com/c/hotjar.js', 'script'), 'blockedbyclient');
+  assert.equal(intercept(page, 'https://www.perplexity.ai/_next/app.js', 'script'), 'continue');
+  assert.equal(intercept(page, 'https://www.perplexity.ai/', 'document', { navigation: true }), 'continue');
+
+  const stats = blocker.takeStats(page);
+  assert.equal(stats.blocked, 3);
+  assert.deepEqual(stats.byType, { image: 1, font: 1, script: 1 });
+  assert.equal(blocker.takeStats(page).blocked, 0);
+  assert.equal(blocker.totals().blocked, 3);
+});
+
+test('bot-protection endpoints are never blocked', async () => {
+  const blocker = new RequestBlocker({ enabled: true, resourceTypes: ['image', 'script'], urlPatterns: ['*cloudflare*'] });
+  const page = fakePage();
+  await blocker.attach(page);
+
+  assert.equal(intercept(page, 'https://challenges.cloudflare.com/turnstile/v0/api.js', 'script'), 'continue');
+  assert.equal(intercept(page, 'https://www.perplexity.ai/cdn-cgi/challenge-platform/h/b/img.png', 'image'), 'continue');
+  assert.equal(intercept(page, 'https://newassets.hcaptcha.com/captcha/v1/logo.png', 'image'), 'continue');
+});
+
+test('a disabled blocker leaves pages alone', async () => {
+  const blocker = new RequestBlocker({ enabled: false, resourceTypes: ['image'], urlPatterns: [] });
+  const page = fakePage();
+  await blocker.attach(page);
+  assert.deepEqual(page.settings, {});
+});
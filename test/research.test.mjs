@@ -0,0 +1,31 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { checkReportCitations, renumberCitations } from '../build/research.js';
+
+const numbering = new Map([[1, 4], [2, 7]]);
+
+test('citation markers are renumbered and unknown ones dropped', () => {
+  assert.equal(renumberCitations('Fast [1], typed [2][3].', numbering), 'Fast [4], typed [7].');
+});
+
+test('indexes in code and attached to identifiers are not citations', () => {
+  const text = [
+    'Read `args[0]` first [1]; xs[2] and grid[0][1] are arrays.',
+    '',
+    '```js',
+    'const first = list[0];',
+    'const [a] = [1];',
+    '```',
+    '',
+    'Use ``a[1]`` sparingly [2].',
+  ].join('\n');
+  assert.equal(renumberCitations(text, numbering), text.replace('first [1]', 'first [4]').replace('sparingly [2]', 'sparingly [7]'));
+});
+
+test('report markers outside the bibliography are removed', () => {
+  assert.deepEqual(
+    checkReportCitations('Shown [1] and [9], but not `cache[9]`.\n\n~~~\nrows[9]\n', 3),
+    { text: 'Shown [1] and , but not `cache[9]`.\n\n~~~\nrows[9]\n', cited: true }
+  );
+  assert.deepEqual(checkReportCitations('Only items[1] here.', 3), { text: 'Only items[1] here.', cited: false });
+});
@@ -0,0 +1,17 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { normalizeArguments } from '../build/responseCache.js';
+
+test('normalizeArguments folds case and whitespace of free text', () => {
+  assert.equal(
+    normalizeArguments({ query: '  What is   MCP? ', cache: 'refresh', format: 'text' }),
+    normalizeArguments({ query: 'what is mcp?' })
+  );
+});
+
+test('normalizeArguments keeps verbatim fields exact', () => {
+  const upper = normalizeArguments({ context: 'Node.js 20', apis: 'Buffer()' }, ['apis']);
+  const lower = normalizeArguments({ context: 'node.js 20', apis: 'buffer()' }, ['apis']);
+  assert.notEqual(upper, lower);
+  assert.equal(upper, normalizeArguments({ apis: 'Buffer()', context: 'NODE.JS 20' }, ['apis']));
+});